@@ -3,6 +3,7 @@ import { GameProvider } from '@/contexts/GameContext'
 import HomePage from '@/components/home/HomePage'
 import LobbyPage from '@/components/lobby/LobbyPage'
 import GamePage from '@/components/game/GamePage'
+import ReplayPage from '@/components/replay/ReplayPage'
 
 function App() {
   return (
@@ -13,6 +14,7 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/game/:tableId" element={<LobbyPage />} />
             <Route path="/game/:tableId/play" element={<GamePage />} />
+            <Route path="/game/:tableId/replay" element={<ReplayPage />} />
           </Routes>
         </div>
       </GameProvider>
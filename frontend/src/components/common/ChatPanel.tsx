@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ChatMessage } from '@shared/types'
+import { MAX_CHAT_MESSAGE_LENGTH } from '@shared/constants'
+import { EMOTE_LABELS } from '@/lib/labels'
+
+interface Props {
+  messages: ChatMessage[]
+  currentPlayerId: string | null
+  closedReason: string | null   // Why nobody can send right now, if they can't
+  onSend: (text: string) => void
+}
+
+// Table chat, tucked into the corner. Collapsed, it shows how many messages
+// arrived since it was last open.
+export default function ChatPanel({ messages, currentPlayerId, closedReason, onSend }: Props) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [seenId, setSeenId] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const lastId = messages[messages.length - 1]?.id ?? 0
+  const unread = isOpen ? 0 : messages.filter(m => m.id > seenId).length
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight
+    }
+  }, [isOpen, lastId])
+
+  const toggle = () => {
+    setIsOpen(!isOpen)
+    setSeenId(lastId)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = draft.trim()
+    if (!text || closedReason) return
+    onSend(text)
+    setDraft('')
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 w-80 max-w-[calc(100vw-2rem)] z-40">
+      <button
+        onClick={toggle}
+        className="ml-auto flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-white text-sm rounded-lg shadow-lg"
+      >
+        {isOpen ? 'Hide Chat' : 'Chat'}
+        {unread > 0 && (
+          <span className="px-2 py-0.5 bg-indigo-600 rounded-full text-xs">{unread}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 bg-gray-800 border border-gray-700 rounded-lg shadow-lg">
+          <div ref={listRef} className="h-64 overflow-y-auto p-3 space-y-2 text-sm">
+            {messages.length === 0 && (
+              <div className="text-gray-500 text-center mt-24">No messages yet</div>
+            )}
+            {messages.map((m) => (
+              <div key={m.id} className="break-words">
+                <span className={m.senderId === currentPlayerId ? 'text-indigo-300' : 'text-gray-400'}>
+                  {m.senderName}:
+                </span>{' '}
+                {m.emote ? (
+                  <span className="text-xl" title={EMOTE_LABELS[m.emote].name}>{EMOTE_LABELS[m.emote].emoji}</span>
+                ) : (
+                  <span className="text-white">{m.text}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex gap-2 p-2 border-t border-gray-700">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={closedReason !== null}
+              maxLength={MAX_CHAT_MESSAGE_LENGTH}
+              placeholder={closedReason ?? 'Say something...'}
+              className="flex-1 min-w-0 px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+              aria-label="Chat message"
+            />
+            <button
+              type="submit"
+              disabled={closedReason !== null || !draft.trim()}
+              className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded"
+            >
+              Send
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
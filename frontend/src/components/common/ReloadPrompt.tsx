@@ -0,0 +1,22 @@
+interface Props {
+  message: string
+}
+
+// Shown when this page and the server no longer speak the same protocol,
+// usually because one of them was deployed while the tab was open
+export default function ReloadPrompt({ message }: Props) {
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-4">
+      <div className="w-full max-w-md text-center">
+        <h2 className="text-2xl font-bold text-white mb-2">A new version is available</h2>
+        <p className="text-gray-400 mb-6">{message}</p>
+        <button
+          onClick={() => window.location.reload()}
+          className="w-full py-4 px-6 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg transition-colors"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,8 @@ interface Props {
   isHolding: boolean
   roundPhase: RoundPhase
   disabled: boolean
+  isBankEmpty?: boolean
+  readOnly?: boolean            // Shows another player's button, as in a replay
 }
 
 export default function BidButton({
@@ -15,22 +17,24 @@ export default function BidButton({
   isHolding,
   roundPhase,
   disabled,
+  isBankEmpty = false,
+  readOnly = false,
 }: Props) {
   const buttonRef = useRef<HTMLButtonElement>(null)
   const isHoldingRef = useRef(false)
   const [toggleMode, setToggleMode] = useState(true) // Default to toggle mode
 
   const startHold = useCallback(() => {
-    if (disabled || isHoldingRef.current) return
+    if (readOnly || disabled || isHoldingRef.current) return
     isHoldingRef.current = true
     onBidStart()
-  }, [disabled, onBidStart])
+  }, [readOnly, disabled, onBidStart])
 
   const endHold = useCallback(() => {
-    if (!isHoldingRef.current) return
+    if (readOnly || !isHoldingRef.current) return
     isHoldingRef.current = false
     onBidEnd()
-  }, [onBidEnd])
+  }, [readOnly, onBidEnd])
 
   // Sync ref with prop
   useEffect(() => {
@@ -73,7 +77,10 @@ export default function BidButton({
 
   // Keyboard events
   useEffect(() => {
+    if (readOnly) return
+
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e)) return
       if (e.code === 'Space' || e.code === 'Enter') {
         e.preventDefault()
         if (toggleMode) {
@@ -90,6 +97,7 @@ export default function BidButton({
     }
 
     const handleKeyUp = (e: KeyboardEvent) => {
+      if (isTyping(e)) return
       if (e.code === 'Space' || e.code === 'Enter') {
         e.preventDefault()
         if (!toggleMode) {
@@ -111,15 +119,20 @@ export default function BidButton({
       window.removeEventListener('mouseup', handleMouseUp)
       window.removeEventListener('touchend', handleTouchEnd)
     }
-  }, [toggleMode, isHolding, disabled, startHold, endHold, handleMouseUp, handleTouchEnd])
+  }, [readOnly, toggleMode, isHolding, disabled, startHold, endHold, handleMouseUp, handleTouchEnd])
 
   // Determine button state based on phase
   const getButtonStyle = () => {
+    if (isBankEmpty) {
+      return 'bg-red-900 text-red-300 cursor-not-allowed'
+    }
+
     if (disabled) {
       return 'bg-gray-700 text-gray-500 cursor-not-allowed'
     }
 
     if (!isHolding) {
+      if (readOnly) return 'bg-indigo-600 text-white cursor-default'
       return 'bg-indigo-600 hover:bg-indigo-700 text-white hover:scale-105'
     }
 
@@ -152,9 +165,11 @@ export default function BidButton({
   }
 
   const getButtonText = () => {
+    if (isBankEmpty) return 'BANK EMPTY'
     if (disabled) return 'Wait...'
 
     if (!isHolding) {
+      if (readOnly) return 'NOT HOLDING'
       if (roundPhase === 'waiting_for_holds') {
         return toggleMode ? 'TAP TO JOIN' : 'HOLD TO JOIN'
       }
@@ -174,6 +189,7 @@ export default function BidButton({
   }
 
   const getHelpText = () => {
+    if (isBankEmpty) return 'Your time ran out - your whole bank is bid'
     if (disabled) return 'Waiting for round to start...'
 
     const action = toggleMode ? 'Tap' : 'Hold'
@@ -197,7 +213,7 @@ export default function BidButton({
   return (
     <div className="flex flex-col items-center">
       {/* Mode toggle */}
-      <div className="mb-4 flex items-center gap-2 text-sm">
+      {!readOnly && <div className="mb-4 flex items-center gap-2 text-sm">
         <span className={toggleMode ? 'text-gray-500' : 'text-white'}>Hold</span>
         <button
           onClick={() => setToggleMode(!toggleMode)}
@@ -211,14 +227,14 @@ export default function BidButton({
           />
         </button>
         <span className={toggleMode ? 'text-white' : 'text-gray-500'}>Toggle</span>
-      </div>
+      </div>}
 
       <button
         ref={buttonRef}
         onClick={handleClick}
         onMouseDown={handleMouseDown}
         onTouchStart={handleTouchStart}
-        disabled={disabled}
+        disabled={disabled || readOnly}
         className={`
           relative w-48 h-48 rounded-full font-bold text-xl
           transition-all duration-150 select-none
@@ -229,9 +245,18 @@ export default function BidButton({
         <span className="relative z-10">{getButtonText()}</span>
       </button>
 
-      <p className="mt-4 text-gray-400 text-sm text-center">
-        {getHelpText()}
-      </p>
+      {!readOnly && (
+        <p className="mt-4 text-gray-400 text-sm text-center">
+          {getHelpText()}
+        </p>
+      )}
     </div>
   )
 }
+
+// Keys typed into a text field (the chat box) aren't meant for the button
+function isTyping(e: KeyboardEvent): boolean {
+  const target = e.target
+  return target instanceof HTMLElement &&
+    (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+}
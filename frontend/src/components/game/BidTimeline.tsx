@@ -0,0 +1,78 @@
+import type { PlayerRoundResult } from '@shared/types'
+
+interface Props {
+  playerResults: PlayerRoundResult[]
+  currentPlayerId: string | null
+}
+
+// Each player's hold on one axis, with 0 at the end of the grace period
+export default function BidTimeline({ playerResults, currentPlayerId }: Props) {
+  const holders = playerResults
+    .filter(r => r.heldFromMs !== null)
+    .sort((a, b) => (a.releaseOrder ?? Infinity) - (b.releaseOrder ?? Infinity))
+  if (holders.length === 0) return null
+
+  const releases = holders.flatMap(r => (r.releasedAtMs === null ? [] : [r.releasedAtMs]))
+  const from = Math.min(...holders.map(r => r.heldFromMs ?? 0))
+  const to = Math.max(1, ...releases)
+  const span = to - from
+  const offset = (ms: number) => `${((ms - from) / span) * 100}%`
+  const width = (start: number, end: number) => `${Math.max(0.5, ((end - start) / span) * 100)}%`
+
+  return (
+    <div className="space-y-2 mb-6">
+      <h3 className="text-sm font-medium text-gray-400">Timeline</h3>
+      {holders.map((r, i) => {
+        const start = r.heldFromMs ?? 0
+        // A sealed release runs to the end of the axis
+        const end = r.releasedAtMs ?? to
+        const previous = i > 0 ? holders[i - 1].releasedAtMs : null
+        const gapMs = r.releasedAtMs !== null && previous !== null ? r.releasedAtMs - previous : null
+
+        return (
+          <div key={r.playerId} className="flex items-center gap-2 text-xs">
+            <div className={`w-20 shrink-0 truncate ${r.playerId === currentPlayerId ? 'text-indigo-300' : 'text-gray-300'}`}>
+              {r.displayName}
+            </div>
+            <div
+              className="relative flex-1 h-4 bg-gray-700/50 rounded"
+              title={`Latency credit: ${r.startCompensationMs}ms on the press, ${r.endCompensationMs}ms on the release`}
+            >
+              {/* Before the grace period ended the hold is free */}
+              <div
+                className="absolute top-1 bottom-1 rounded-l bg-green-600"
+                style={{ left: offset(start), width: width(start, Math.min(end, 0)) }}
+              />
+              {end > 0 && (
+                <div
+                  className={`absolute top-1 bottom-1 rounded-r ${r.releasedAtMs === null ? 'bg-gray-500' : 'bg-red-500'}`}
+                  style={{ left: offset(Math.max(start, 0)), width: width(Math.max(start, 0), end) }}
+                />
+              )}
+              <div className="absolute inset-y-0 w-px bg-white/60" style={{ left: offset(0) }} />
+            </div>
+            <div className="w-24 shrink-0 text-right">
+              {r.releasedAtMs === null ? (
+                <span className="text-gray-500">Sealed</span>
+              ) : r.optedOutInGrace ? (
+                <span className="text-green-400">Out {formatOffset(r.releasedAtMs)}</span>
+              ) : (
+                <span className="text-white">{formatOffset(r.releasedAtMs)}</span>
+              )}
+              {gapMs !== null && (
+                <div className="text-gray-500">{formatOffset(gapMs)} after</div>
+              )}
+            </div>
+          </div>
+        )
+      })}
+      <p className="text-xs text-gray-500">
+        The line marks the end of the grace period. Hover a bar for the latency credit.
+      </p>
+    </div>
+  )
+}
+
+function formatOffset(ms: number): string {
+  return `${ms < 0 ? '-' : '+'}${(Math.abs(ms) / 1000).toFixed(2)}s`
+}
@@ -0,0 +1,27 @@
+import type { Emote } from '@shared/types'
+import { EMOTES } from '@shared/constants'
+import { EMOTE_LABELS } from '@/lib/labels'
+
+interface Props {
+  onEmote: (emote: Emote) => void
+}
+
+// One tap to react without reaching for the keyboard mid-round. Emotes stay
+// open while bidding even when chat is closed.
+export default function EmoteBar({ onEmote }: Props) {
+  return (
+    <div className="flex justify-center gap-2">
+      {EMOTES.map((emote) => (
+        <button
+          key={emote}
+          onClick={() => onEmote(emote)}
+          title={EMOTE_LABELS[emote].name}
+          aria-label={EMOTE_LABELS[emote].name}
+          className="w-10 h-10 text-xl bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          {EMOTE_LABELS[emote].emoji}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -1,18 +1,21 @@
 import { useEffect, useState, useCallback, useRef } from 'react'
-import { useParams } from 'react-router-dom'
+import { useParams, useNavigate } from 'react-router-dom'
 import { useGame } from '@/contexts/GameContext'
 import { useWebSocket } from '@/hooks/useWebSocket'
 import BidButton from './BidButton'
 import PlayerBidStatus from './PlayerBidStatus'
 import RoundResults from './RoundResults'
 import FinalResults from '../results/FinalResults'
-import type { RoundResult, RoundPhase } from '@shared/types'
+import ReloadPrompt from '../common/ReloadPrompt'
+import ChatPanel from '../common/ChatPanel'
+import EmoteBar from './EmoteBar'
+import type { RoundResult, RoundPhase, ConnectionRole } from '@shared/types'
 
 function getStoredSession(tableId: string) {
   try {
     const stored = sessionStorage.getItem(`session_${tableId}`)
     if (stored) {
-      return JSON.parse(stored) as { playerName: string; reconnectToken: string }
+      return JSON.parse(stored) as { playerName: string; reconnectToken: string; role?: ConnectionRole }
     }
   } catch {}
   return null
@@ -20,48 +23,84 @@ function getStoredSession(tableId: string) {
 
 export default function GamePage() {
   const { tableId } = useParams<{ tableId: string }>()
+  const navigate = useNavigate()
   const { state, dispatch } = useGame()
   const [showRoundResults, setShowRoundResults] = useState(false)
   const [currentRoundResult, setCurrentRoundResult] = useState<RoundResult | null>(null)
   const [isHolding, setIsHolding] = useState(false)
   const [currentBidMs, setCurrentBidMs] = useState(0)
   const [roundPhase, setRoundPhase] = useState<RoundPhase>('pre_round')
+  const [roundPoints, setRoundPoints] = useState(1)
   const [countdown, setCountdown] = useState<number | null>(null)
+  const [isPaused, setIsPaused] = useState(false)
+  const [isDecided, setIsDecided] = useState(false)
+  const [phaseEndTime, setPhaseEndTime] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const [timedOutMessage, setTimedOutMessage] = useState<string | null>(null)
   const [graceCountdown, setGraceCountdown] = useState<number | null>(null)
   const [hasReconnected, setHasReconnected] = useState(false)
   const [playersHolding, setPlayersHolding] = useState<Set<string>>(new Set())
+  const [playersBankEmpty, setPlayersBankEmpty] = useState<Set<string>>(new Set())
   const holdStartTimeRef = useRef<number | null>(null)
 
-  const { sendMessage, isConnected } = useWebSocket(tableId ?? null, {
+  const { sendMessage, isConnected, protocolMismatch } = useWebSocket(tableId ?? null, {
+    onClockSync: (offsetMs, rttMs) => dispatch({ type: 'SET_CLOCK_SYNC', offsetMs, rttMs }),
     onMessage: (msg) => {
       if (msg.type === 'welcome') {
-        dispatch({ type: 'SET_PLAYER_INFO', playerId: msg.playerId, reconnectToken: msg.reconnectToken, serverTime: msg.serverTime })
+        dispatch({ type: 'SET_PLAYER_INFO', playerId: msg.playerId, reconnectToken: msg.reconnectToken, serverTime: msg.serverTime, role: msg.role, features: msg.features })
       } else if (msg.type === 'gameState') {
         dispatch({ type: 'SET_GAME_STATE', state: msg.state })
         setRoundPhase(msg.state.roundPhase)
+        setRoundPoints(msg.state.roundPoints)
+        setIsPaused(msg.state.pausedAt !== null)
+        setIsDecided(msg.state.decidedInRound !== null)
+        setPhaseEndTime(msg.state.phaseEndTime)
+        setPlayersBankEmpty(new Set(msg.state.playerBids.filter(b => b.bankExhausted).map(b => b.playerId)))
+        // A snapshot replaces whatever the incremental updates built up,
+        // which may have missed one (after a reconnect or a resync)
+        setPlayersHolding(new Set(msg.state.playerBids.filter(b => b.isBidding).map(b => b.playerId)))
+        const ownBid = msg.state.playerBids.find(b => b.playerId === state.playerId)
+        if (ownBid && !ownBid.isBidding) {
+          setIsHolding(false)
+          holdStartTimeRef.current = null
+        }
         dispatch({ type: 'UPDATE_PLAYERS', players: msg.state.players })
+        // Results broadcast while we weren't listening
+        if (msg.lastRoundResult) {
+          setCurrentRoundResult(msg.lastRoundResult)
+          dispatch({ type: 'ADD_ROUND_RESULT', result: msg.lastRoundResult })
+          if (msg.state.roundPhase === 'resolution') setShowRoundResults(true)
+        }
+        if (msg.finalResults) {
+          dispatch({ type: 'SET_FINAL_STANDINGS', standings: msg.finalResults.standings, reason: msg.finalResults.reason })
+        }
       } else if (msg.type === 'lobbyState') {
-        dispatch({ type: 'SET_LOBBY_STATE', settings: msg.settings, players: msg.players, hostId: msg.hostId })
+        dispatch({ type: 'SET_LOBBY_STATE', settings: msg.settings, players: msg.players, hostId: msg.hostId, spectators: msg.spectators })
       } else if (msg.type === 'roundStart') {
         setShowRoundResults(false)
         setCurrentRoundResult(null)
         setIsHolding(false)
         setCurrentBidMs(0)
         setRoundPhase('pre_round')
+        setRoundPoints(msg.points)
         setCountdown(3)
         setGraceCountdown(null)
         setPlayersHolding(new Set())
+        setPlayersBankEmpty(new Set())
+        setPhaseEndTime(null)
+        setTimedOutMessage(null)
         holdStartTimeRef.current = null
       } else if (msg.type === 'allPlayersHolding') {
         // All players are holding, grace period started
         setRoundPhase('grace_period')
         setCountdown(null)
-        // Start grace period countdown
-        const graceDuration = msg.gracePeriodEndsAt - Date.now()
+        // Start grace period countdown, aligned to the server clock
+        const graceDuration = msg.gracePeriodEndsAt - (Date.now() + state.serverTimeOffset)
         setGraceCountdown(Math.ceil(graceDuration / 1000))
       } else if (msg.type === 'graceExpired') {
         setRoundPhase('bidding')
         setGraceCountdown(null)
+        setPhaseEndTime(msg.phaseEndTime)
         // Now time starts counting for real
         if (isHolding) {
           holdStartTimeRef.current = Date.now()
@@ -83,6 +122,23 @@ export default function GamePage() {
           next.delete(msg.playerId)
           return next
         })
+        if (msg.bankExhausted) {
+          // Server force-released them at exactly their remaining bank
+          setPlayersBankEmpty(prev => new Set(prev).add(msg.playerId))
+          if (msg.playerId === state.playerId) {
+            setIsHolding(false)
+            setCurrentBidMs(msg.currentBidMs)
+            holdStartTimeRef.current = null
+          }
+        } else if (msg.timedOut && msg.playerId === state.playerId) {
+          // Server ran out the hold window or the bidding limit on us
+          setIsHolding(false)
+          setCurrentBidMs(msg.currentBidMs)
+          holdStartTimeRef.current = null
+          setTimedOutMessage(msg.currentBidMs > 0
+            ? `Bidding closed. Your bid was locked in at ${formatTime(msg.currentBidMs)}.`
+            : "You didn't hold in time and sit this round out.")
+        }
       } else if (msg.type === 'roundEnd') {
         setCurrentRoundResult(msg.results)
         dispatch({ type: 'ADD_ROUND_RESULT', result: msg.results })
@@ -90,8 +146,40 @@ export default function GamePage() {
         setIsHolding(false)
         setRoundPhase('resolution')
         holdStartTimeRef.current = null
+      } else if (msg.type === 'playerDisconnected') {
+        dispatch({ type: 'PLAYER_CONNECTION', playerId: msg.playerId, isConnected: false })
+      } else if (msg.type === 'hostChanged') {
+        dispatch({ type: 'HOST_CHANGED', hostId: msg.hostId })
+      } else if (msg.type === 'hostToken') {
+        sessionStorage.setItem(`host_${tableId}`, msg.hostToken)
+      } else if (msg.type === 'playerReconnected') {
+        dispatch({ type: 'PLAYER_CONNECTION', playerId: msg.playerId, isConnected: true })
       } else if (msg.type === 'gameEnd') {
-        dispatch({ type: 'SET_FINAL_STANDINGS', standings: msg.standings })
+        setIsPaused(false)
+        dispatch({ type: 'SET_FINAL_STANDINGS', standings: msg.standings, reason: msg.reason })
+      } else if (msg.type === 'playerEliminated') {
+        dispatch({ type: 'PLAYER_ELIMINATED', playerId: msg.playerId })
+      } else if (msg.type === 'gameDecided') {
+        setIsDecided(true)
+      } else if (msg.type === 'gamePaused') {
+        setIsPaused(true)
+      } else if (msg.type === 'gameResumed') {
+        setIsPaused(false)
+        setPhaseEndTime(msg.phaseEndTime)
+        // Re-sync a running countdown to the shifted deadline
+        const phaseEndTime = msg.phaseEndTime
+        if (phaseEndTime !== null) {
+          setCountdown(prev => prev === null
+            ? prev
+            : Math.max(0, Math.ceil((phaseEndTime - (Date.now() + state.serverTimeOffset)) / 1000)))
+        }
+      } else if (msg.type === 'chatHistory') {
+        dispatch({ type: 'SET_CHAT_HISTORY', messages: msg.messages })
+      } else if (msg.type === 'chatMessage') {
+        dispatch({ type: 'ADD_CHAT_MESSAGE', message: msg.message })
+      } else if (msg.type === 'rematchStarting') {
+        dispatch({ type: 'RETURN_TO_LOBBY' })
+        navigate(`/game/${tableId}`)
       }
     },
   })
@@ -106,6 +194,8 @@ export default function GamePage() {
           type: 'join',
           playerName: storedSession.playerName,
           reconnectToken: storedSession.reconnectToken,
+          hostToken: sessionStorage.getItem(`host_${tableId}`) ?? undefined,
+          role: storedSession.role,
         })
       }
     }
@@ -113,14 +203,22 @@ export default function GamePage() {
 
   // Pre-round countdown timer
   useEffect(() => {
-    if (countdown === null || countdown <= 0) return
+    if (countdown === null || countdown <= 0 || isPaused) return
 
     const timer = setTimeout(() => {
       setCountdown(countdown - 1)
     }, 1000)
 
     return () => clearTimeout(timer)
-  }, [countdown])
+  }, [countdown, isPaused])
+
+  // Clock for phase deadlines (hold timeout, bidding limit)
+  useEffect(() => {
+    if (phaseEndTime === null || isPaused) return
+
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [phaseEndTime, isPaused])
 
   // Grace period countdown timer
   useEffect(() => {
@@ -144,6 +242,8 @@ export default function GamePage() {
     sendMessage({ type: 'bidEnd', clientTimestamp: Date.now() })
   }, [sendMessage])
 
+  const currentPlayer = state.players.find(p => p.id === state.playerId)
+
   // Update bid timer (only counts during bidding phase)
   useEffect(() => {
     if (!isHolding || roundPhase !== 'bidding') {
@@ -158,21 +258,49 @@ export default function GamePage() {
       holdStartTimeRef.current = Date.now()
     }
 
+    const bankMs = currentPlayer?.timeRemainingMs ?? 0
     const interval = setInterval(() => {
       if (holdStartTimeRef.current) {
-        setCurrentBidMs(Date.now() - holdStartTimeRef.current)
+        setCurrentBidMs(Math.min(Date.now() - holdStartTimeRef.current, bankMs))
       }
     }, 50)
 
     return () => clearInterval(interval)
-  }, [isHolding, roundPhase])
+  }, [isHolding, roundPhase, currentPlayer?.timeRemainingMs])
 
-  const currentPlayer = state.players.find(p => p.id === state.playerId)
+  const isEliminated = currentPlayer?.isEliminated ?? false
+  const isBankEmpty = isEliminated || (state.playerId !== null && playersBankEmpty.has(state.playerId))
+  const contenderCount = state.players.filter(p => p.isConnected && !p.isEliminated).length
+  // phaseEndTime is in server time
+  const phaseSecondsLeft = phaseEndTime === null
+    ? null
+    : Math.max(0, Math.ceil((phaseEndTime - state.serverTimeOffset - now) / 1000))
+  const disclosure = state.gameState?.disclosure ?? state.settings?.disclosure ?? 'full'
+  const hideHolding = (disclosure === 'hide_holding' || disclosure === 'sealed') &&
+    (roundPhase === 'grace_period' || roundPhase === 'bidding')
   const canHold = roundPhase === 'waiting_for_holds' || roundPhase === 'grace_period' || roundPhase === 'bidding'
+  const isSpectator = state.role === 'spectator'
+  const canPause = state.isHost && !isPaused &&
+    (roundPhase === 'pre_round' || roundPhase === 'waiting_for_holds' || roundPhase === 'resolution')
+  const hasChat = state.features.includes('chat')
+  const isChatClosed = state.settings?.chatDuringBidding === false &&
+    (roundPhase === 'grace_period' || roundPhase === 'bidding')
   const hasReleased = roundPhase === 'bidding' && !isHolding && playersHolding.size < state.players.filter(p => p.isConnected).length
 
+  if (protocolMismatch) {
+    return <ReloadPrompt message={protocolMismatch} />
+  }
+
   if (state.finalStandings) {
-    return <FinalResults standings={state.finalStandings} currentPlayerId={state.playerId} />
+    return (
+      <FinalResults
+        standings={state.finalStandings}
+        reason={state.gameEndReason}
+        currentPlayerId={state.playerId}
+        isHost={state.isHost}
+        onRematch={(keepSeriesScore) => sendMessage({ type: 'rematch', keepSeriesScore })}
+      />
+    )
   }
 
   // Determine phase status message
@@ -181,11 +309,13 @@ export default function GamePage() {
       case 'pre_round':
         return 'Get ready...'
       case 'waiting_for_holds':
-        return `Hold your button to participate (${playersHolding.size}/${state.players.filter(p => p.isConnected).length} holding)`
+        return `Hold your button to participate (${playersHolding.size}/${contenderCount} holding)` +
+          (phaseSecondsLeft !== null ? ` - ${phaseSecondsLeft}s left` : '')
       case 'grace_period':
         return graceCountdown !== null ? `Grace period: ${graceCountdown}s - release to opt out` : 'Grace period...'
       case 'bidding':
-        return 'BIDDING! Release to lock in your bid'
+        return 'BIDDING! Release to lock in your bid' +
+          (phaseSecondsLeft !== null ? ` - closes in ${phaseSecondsLeft}s` : '')
       case 'resolution':
         return 'Round complete'
       default:
@@ -199,16 +329,52 @@ export default function GamePage() {
         {/* Header */}
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-2xl font-bold text-white">Time Auction</h1>
-          <div className="text-gray-400">
-            Round {state.gameState?.currentRound ?? 1} of {state.gameState?.totalRounds ?? state.settings?.numRounds ?? 10}
+          <div className="text-right">
+            <div className="text-gray-400">
+              Round {state.gameState?.currentRound ?? 1} of {state.gameState?.totalRounds ?? state.settings?.numRounds ?? 10}
+            </div>
+            <div className={roundPoints > 1 ? 'text-yellow-400 font-semibold' : 'text-gray-500 text-sm'}>
+              Worth {roundPoints} {roundPoints === 1 ? 'point' : 'points'}
+            </div>
+            {canPause && (
+              <button
+                onClick={() => sendMessage({ type: 'pause' })}
+                className="mt-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg"
+              >
+                Pause
+              </button>
+            )}
           </div>
         </div>
 
+        {isDecided && (
+          <div className="flex items-center justify-between gap-4 mb-6 p-4 bg-yellow-900/30 border border-yellow-700 rounded-lg">
+            <div className="text-yellow-300">
+              {state.settings?.earlyFinish === 'auto'
+                ? 'The leader can no longer be caught. The game ends after this round.'
+                : 'The leader can no longer be caught.'}
+            </div>
+            {state.isHost && !isPaused && state.settings?.earlyFinish !== 'auto' && (
+              <button
+                onClick={() => sendMessage({ type: 'finishEarly' })}
+                className="shrink-0 px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white font-semibold rounded-lg transition-colors"
+              >
+                End Game Now
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Countdown overlay */}
         {countdown !== null && countdown > 0 && (
           <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
             <div className="text-center">
               <div className="text-8xl font-bold text-white mb-4">{countdown}</div>
+              {roundPoints > 1 && (
+                <div className="text-3xl font-bold text-yellow-400 mb-2">
+                  Bonus round: {roundPoints} points!
+                </div>
+              )}
               <div className="text-2xl text-gray-300">Get ready!</div>
             </div>
           </div>
@@ -216,12 +382,23 @@ export default function GamePage() {
 
         {/* Main game area */}
         <div className="bg-gray-800 rounded-xl p-6 mb-6">
-          <div className="text-center mb-6">
-            <div className="text-gray-400 text-sm mb-1">Your Time Bank</div>
-            <div className="text-4xl font-mono font-bold text-white">
-              {formatTime(currentPlayer?.timeRemainingMs ?? 0)}
+          {isSpectator ? (
+            <div className="text-center mb-6">
+              <div className="text-gray-400 text-sm mb-1">Spectating</div>
+              {(state.settings?.spectatorDelayMs ?? 0) > 0 && (
+                <div className="text-gray-500 text-sm">
+                  Updates are delayed by {(state.settings?.spectatorDelayMs ?? 0) / 1000}s
+                </div>
+              )}
             </div>
-          </div>
+          ) : (
+            <div className="text-center mb-6">
+              <div className="text-gray-400 text-sm mb-1">Your Time Bank</div>
+              <div className="text-4xl font-mono font-bold text-white">
+                {formatTime(currentPlayer?.timeRemainingMs ?? 0)}
+              </div>
+            </div>
+          )}
 
           {/* Phase status */}
           <div className={`text-center mb-4 text-lg font-semibold ${
@@ -233,13 +410,16 @@ export default function GamePage() {
             {getPhaseMessage()}
           </div>
 
-          <BidButton
-            onBidStart={handleHoldStart}
-            onBidEnd={handleHoldEnd}
-            isHolding={isHolding}
-            roundPhase={roundPhase}
-            disabled={!canHold || hasReleased}
-          />
+          {!isSpectator && (
+            <BidButton
+              onBidStart={handleHoldStart}
+              onBidEnd={handleHoldEnd}
+              isHolding={isHolding}
+              roundPhase={roundPhase}
+              disabled={!canHold || hasReleased || isEliminated || timedOutMessage !== null}
+              isBankEmpty={isBankEmpty}
+            />
+          )}
 
           {isHolding && roundPhase === 'bidding' && (
             <div className="text-center mt-4">
@@ -248,28 +428,81 @@ export default function GamePage() {
             </div>
           )}
 
-          {hasReleased && (
+          {!isSpectator && isEliminated && (
+            <div className="text-center mt-4 text-red-400">
+              You're out of time and sit out the remaining rounds.
+            </div>
+          )}
+
+          {!isSpectator && timedOutMessage && (
+            <div className="text-center mt-4 text-yellow-400">{timedOutMessage}</div>
+          )}
+
+          {!isSpectator && !isEliminated && !timedOutMessage && hasReleased && isBankEmpty && (
+            <div className="text-center mt-4 text-red-400">
+              Your time bank is empty! Bid locked in at {formatTime(currentBidMs)}. Waiting for others...
+            </div>
+          )}
+
+          {!isSpectator && !timedOutMessage && hasReleased && !isBankEmpty && (
             <div className="text-center mt-4 text-gray-400">
               You've submitted your bid. Waiting for others...
             </div>
           )}
         </div>
 
+        {hasChat && (
+          <div className="mb-6">
+            <EmoteBar onEmote={(emote) => sendMessage({ type: 'emote', emote })} />
+          </div>
+        )}
+
         {/* Player status */}
         <PlayerBidStatus
           players={state.players}
           playerBids={state.gameState?.playerBids ?? []}
           currentPlayerId={state.playerId}
           playersHolding={playersHolding}
+          playersBankEmpty={playersBankEmpty}
+          hideHolding={hideHolding}
         />
 
         {/* Round results modal */}
         {showRoundResults && currentRoundResult && (
           <RoundResults
             result={currentRoundResult}
+            currentPlayerId={state.playerId}
             onClose={() => setShowRoundResults(false)}
           />
         )}
+
+        {hasChat && (
+          <ChatPanel
+            messages={state.chat}
+            currentPlayerId={state.playerId}
+            closedReason={isChatClosed ? 'Chat is closed while bidding' : null}
+            onSend={(text) => sendMessage({ type: 'chat', text })}
+          />
+        )}
+
+        {/* Pause overlay (last, so it covers the countdown and results) */}
+        {isPaused && (
+          <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+            <div className="text-center">
+              <div className="text-6xl font-bold text-white mb-4">Paused</div>
+              {state.isHost ? (
+                <button
+                  onClick={() => sendMessage({ type: 'resume' })}
+                  className="px-8 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors"
+                >
+                  Resume
+                </button>
+              ) : (
+                <div className="text-xl text-gray-300">Waiting for the host to resume...</div>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -1,13 +1,23 @@
 import type { Player, PlayerBidStatus as BidStatus } from '@shared/types'
+import { formatPoints } from '@/lib/format'
 
 interface Props {
   players: Player[]
   playerBids: BidStatus[]
   currentPlayerId: string | null
   playersHolding: Set<string>
+  playersBankEmpty: Set<string>
+  hideHolding: boolean
 }
 
-export default function PlayerBidStatus({ players, playerBids, currentPlayerId, playersHolding }: Props) {
+export default function PlayerBidStatus({
+  players,
+  playerBids,
+  currentPlayerId,
+  playersHolding,
+  playersBankEmpty,
+  hideHolding,
+}: Props) {
   const getBidStatus = (playerId: string): BidStatus | undefined => {
     return playerBids.find(b => b.playerId === playerId)
   }
@@ -20,6 +30,8 @@ export default function PlayerBidStatus({ players, playerBids, currentPlayerId,
           const bidStatus = getBidStatus(player.id)
           const isCurrentPlayer = player.id === currentPlayerId
           const isHolding = playersHolding.has(player.id)
+          const isBankEmpty = playersBankEmpty.has(player.id)
+          const isHidden = hideHolding && !isCurrentPlayer
 
           return (
             <div
@@ -33,9 +45,15 @@ export default function PlayerBidStatus({ players, playerBids, currentPlayerId,
               <div className="flex items-center gap-3">
                 {/* Status indicator */}
                 <div className={`w-2 h-2 rounded-full ${
-                  isHolding
+                  player.isEliminated
+                    ? 'bg-red-900'
+                    : isHidden
+                    ? 'bg-gray-600'
+                    : isHolding
                     ? 'bg-yellow-500 animate-pulse'
-                    : bidStatus?.hasReleasedThisRound
+                    : isBankEmpty
+                      ? 'bg-red-500'
+                      : bidStatus?.hasReleasedThisRound
                       ? 'bg-gray-500'
                       : 'bg-green-500'
                 }`} />
@@ -45,6 +63,10 @@ export default function PlayerBidStatus({ players, playerBids, currentPlayerId,
                   {isCurrentPlayer && ' (You)'}
                 </span>
 
+                {!player.isConnected && (
+                  <span className="text-xs text-gray-500">Offline</span>
+                )}
+
                 {player.isHost && (
                   <span className="text-xs bg-yellow-600/50 text-yellow-300 px-1.5 py-0.5 rounded">
                     Host
@@ -56,19 +78,27 @@ export default function PlayerBidStatus({ players, playerBids, currentPlayerId,
                 {/* Points */}
                 <div className="text-center">
                   <div className="text-gray-500 text-xs">Points</div>
-                  <div className="text-white font-mono">{player.victoryPoints}</div>
+                  <div className="text-white font-mono">{formatPoints(player.victoryPoints)}</div>
                 </div>
 
                 {/* Time Bank */}
                 <div className="text-center">
                   <div className="text-gray-500 text-xs">Bank</div>
-                  <div className="text-white font-mono">{formatTimeShort(player.timeRemainingMs)}</div>
+                  <div className="text-white font-mono">
+                    {player.timeRemainingMs === null ? '?:??' : formatTimeShort(player.timeRemainingMs)}
+                  </div>
                 </div>
 
                 {/* Current status */}
                 <div className="w-20 text-right">
-                  {isHolding ? (
+                  {player.isEliminated ? (
+                    <span className="text-red-500">Out</span>
+                  ) : isHidden ? (
+                    <span className="text-gray-500">Hidden</span>
+                  ) : isHolding ? (
                     <span className="text-yellow-400">Holding</span>
+                  ) : isBankEmpty ? (
+                    <span className="text-red-400">Bank empty</span>
                   ) : bidStatus?.hasReleasedThisRound ? (
                     <span className="text-gray-500">Released</span>
                   ) : (
@@ -1,12 +1,18 @@
-import type { RoundResult } from '@shared/types'
+import type { RoundResult, BidOutcome } from '@shared/types'
+import { formatPoints } from '@/lib/format'
+import BidTimeline from './BidTimeline'
 
 interface Props {
   result: RoundResult
+  currentPlayerId: string | null
   onClose: () => void
 }
 
-export default function RoundResults({ result, onClose }: Props) {
+export default function RoundResults({ result, currentPlayerId, onClose }: Props) {
   const sortedResults = [...result.playerResults].sort((a, b) => b.bidMs - a.bidMs)
+  const scorerIds = new Set(result.awards.map(a => a.playerId))
+  const nameOf = (playerId: string) =>
+    result.playerResults.find(r => r.playerId === playerId)?.displayName ?? 'Unknown'
 
   return (
     <div className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50">
@@ -19,9 +25,28 @@ export default function RoundResults({ result, onClose }: Props) {
           <div className="text-center mb-6">
             <div className="text-4xl mb-2">🏆</div>
             <div className="text-xl text-white font-semibold">{result.winnerName}</div>
-            <div className="text-green-400">+1 Point</div>
+            <div className="text-green-400">+{result.points} {result.points === 1 ? 'Point' : 'Points'}</div>
+            {result.wasTie && (
+              <div className="text-yellow-400 text-sm mt-1">
+                {result.sealed
+                  ? 'Tie broken by least time left'
+                  : `Tie with ${result.tiedPlayerIds.filter(id => id !== result.winnerId).map(nameOf).join(', ')} - least time left wins`}
+              </div>
+            )}
             <div className="text-gray-400 text-sm mt-1">
-              Winning bid: {formatTime(result.winningBidMs)}
+              {result.sealed && result.winnerId !== currentPlayerId
+                ? 'Winning bid sealed until game end'
+                : `Winning bid: ${formatTime(result.winningBidMs)}`}
+            </div>
+          </div>
+        ) : result.awards.length > 0 ? (
+          <div className="text-center mb-6">
+            <div className="text-4xl mb-2">🤝</div>
+            <div className="text-xl text-white font-semibold">
+              Tie - {result.awards.map(a => nameOf(a.playerId)).join(' & ')}
+            </div>
+            <div className="text-green-400">
+              +{formatPoints(result.awards[0].points)} {result.awards[0].points === 1 ? 'Point' : 'Points'} each
             </div>
           </div>
         ) : (
@@ -39,19 +64,39 @@ export default function RoundResults({ result, onClose }: Props) {
             <div
               key={playerResult.playerId}
               className={`flex items-center justify-between p-2 rounded ${
-                playerResult.playerId === result.winnerId
+                scorerIds.has(playerResult.playerId)
                   ? 'bg-green-900/30 border border-green-700/50'
                   : 'bg-gray-700/50'
               }`}
             >
-              <span className="text-white">{playerResult.displayName}</span>
-              <span className={playerResult.participated ? 'text-red-400' : 'text-gray-500'}>
-                {playerResult.participated ? `-${formatTime(playerResult.bidMs)}` : 'Did not bid'}
-              </span>
+              <div>
+                <span className="text-white">{playerResult.displayName}</span>
+                {getOutcomeLabel(playerResult.outcome) && (
+                  <span className="ml-2 text-xs text-gray-400">
+                    {getOutcomeLabel(playerResult.outcome)}
+                  </span>
+                )}
+              </div>
+              {result.sealed && playerResult.playerId !== currentPlayerId ? (
+                <span className="text-gray-500">Sealed</span>
+              ) : playerResult.participated ? (
+                <div className="text-right">
+                  <div className={playerResult.chargedMs > 0 ? 'text-red-400' : 'text-gray-400'}>
+                    {playerResult.chargedMs > 0 ? `-${formatTime(playerResult.chargedMs)}` : 'Paid nothing'}
+                  </div>
+                  {playerResult.chargedMs !== playerResult.bidMs && (
+                    <div className="text-xs text-gray-500">Bid {formatTime(playerResult.bidMs)}</div>
+                  )}
+                </div>
+              ) : (
+                <span className="text-gray-500">Did not bid</span>
+              )}
             </div>
           ))}
         </div>
 
+        <BidTimeline playerResults={result.playerResults} currentPlayerId={currentPlayerId} />
+
         <button
           onClick={onClose}
           className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg transition-colors"
@@ -63,6 +108,15 @@ export default function RoundResults({ result, onClose }: Props) {
   )
 }
 
+function getOutcomeLabel(outcome: BidOutcome): string | null {
+  switch (outcome) {
+    case 'bank_exhausted': return 'Bank empty'
+    case 'disconnected': return 'Disconnected'
+    case 'timed_out': return 'Timed out'
+    default: return null
+  }
+}
+
 function formatTime(ms: number): string {
   const totalSeconds = Math.floor(ms / 1000)
   const minutes = Math.floor(totalSeconds / 60)
@@ -1,11 +1,39 @@
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { API_BASE_URL } from '@/lib/config'
+import {
+  PAYMENT_RULE_LABELS,
+  POINT_SCHEDULE_LABELS,
+  DISCLOSURE_LABELS,
+  ELIMINATION_LABELS,
+  EARLY_FINISH_LABELS,
+  TIE_BREAK_LABELS,
+} from '@/lib/labels'
+import type {
+  PaymentRule,
+  PointSchedule,
+  DisclosureMode,
+  EliminationMode,
+  EarlyFinishMode,
+  TieBreak,
+} from '@shared/types'
 import {
   DEFAULT_STARTING_TIME_MS,
   DEFAULT_NUM_ROUNDS,
   DEFAULT_MAX_PLAYERS,
   DEFAULT_GRACE_PERIOD_MS,
+  DEFAULT_PAYMENT_RULE,
+  DEFAULT_POINT_SCHEDULE,
+  DEFAULT_BONUS_ROUND_POINTS,
+  DEFAULT_DISCLOSURE,
+  DEFAULT_SPECTATOR_DELAY_MS,
+  DEFAULT_ELIMINATION,
+  DEFAULT_EARLY_FINISH,
+  DEFAULT_HOLD_TIMEOUT_MS,
+  DEFAULT_MAX_BIDDING_MS,
+  DEFAULT_TIE_THRESHOLD_MS,
+  DEFAULT_TIE_BREAK,
+  DEFAULT_CHAT_DURING_BIDDING,
   MIN_STARTING_TIME_SECONDS,
   MAX_STARTING_TIME_SECONDS,
   MIN_ROUNDS,
@@ -14,6 +42,20 @@ import {
   MAX_PLAYERS,
   MIN_GRACE_PERIOD_SECONDS,
   MAX_GRACE_PERIOD_SECONDS,
+  PAYMENT_RULES,
+  POINT_SCHEDULES,
+  MIN_BONUS_ROUND_POINTS,
+  MAX_BONUS_ROUND_POINTS,
+  DISCLOSURE_MODES,
+  MIN_SPECTATOR_DELAY_SECONDS,
+  MAX_SPECTATOR_DELAY_SECONDS,
+  ELIMINATION_MODES,
+  EARLY_FINISH_MODES,
+  MAX_HOLD_TIMEOUT_SECONDS,
+  MAX_BIDDING_SECONDS,
+  MIN_TIE_THRESHOLD_MS,
+  MAX_TIE_THRESHOLD_MS,
+  TIE_BREAKS,
 } from '@shared/constants'
 
 interface Props {
@@ -32,6 +74,18 @@ export default function CreateTableForm({ onBack }: Props) {
     numRounds: DEFAULT_NUM_ROUNDS,
     maxPlayers: DEFAULT_MAX_PLAYERS,
     gracePeriodSeconds: DEFAULT_GRACE_PERIOD_MS / 1000,
+    paymentRule: DEFAULT_PAYMENT_RULE,
+    pointSchedule: DEFAULT_POINT_SCHEDULE,
+    bonusRoundPoints: DEFAULT_BONUS_ROUND_POINTS,
+    disclosure: DEFAULT_DISCLOSURE,
+    spectatorDelaySeconds: DEFAULT_SPECTATOR_DELAY_MS / 1000,
+    elimination: DEFAULT_ELIMINATION,
+    earlyFinish: DEFAULT_EARLY_FINISH,
+    holdTimeoutSeconds: DEFAULT_HOLD_TIMEOUT_MS / 1000,
+    maxBiddingSeconds: DEFAULT_MAX_BIDDING_MS / 1000,
+    tieThresholdMs: DEFAULT_TIE_THRESHOLD_MS,
+    tieBreak: DEFAULT_TIE_BREAK,
+    chatDuringBidding: DEFAULT_CHAT_DURING_BIDDING,
   })
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -50,6 +104,18 @@ export default function CreateTableForm({ onBack }: Props) {
           numRounds: formData.numRounds,
           maxPlayers: formData.maxPlayers,
           gracePeriodSeconds: formData.gracePeriodSeconds,
+          paymentRule: formData.paymentRule,
+          pointSchedule: formData.pointSchedule,
+          bonusRoundPoints: formData.bonusRoundPoints,
+          disclosure: formData.disclosure,
+          spectatorDelaySeconds: formData.spectatorDelaySeconds,
+          elimination: formData.elimination,
+          earlyFinish: formData.earlyFinish,
+          holdTimeoutSeconds: formData.holdTimeoutSeconds,
+          maxBiddingSeconds: formData.maxBiddingSeconds,
+          tieThresholdMs: formData.tieThresholdMs,
+          tieBreak: formData.tieBreak,
+          chatDuringBidding: formData.chatDuringBidding,
         }),
       })
 
@@ -174,6 +240,186 @@ export default function CreateTableForm({ onBack }: Props) {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Who Pays
+            </label>
+            <select
+              value={formData.paymentRule}
+              onChange={(e) => setFormData({ ...formData, paymentRule: e.target.value as PaymentRule })}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+            >
+              {PAYMENT_RULES.map((rule) => (
+                <option key={rule} value={rule}>{PAYMENT_RULE_LABELS[rule]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Round Points
+              </label>
+              <select
+                value={formData.pointSchedule}
+                onChange={(e) => setFormData({ ...formData, pointSchedule: e.target.value as PointSchedule })}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+              >
+                {POINT_SCHEDULES.map((schedule) => (
+                  <option key={schedule} value={schedule}>{POINT_SCHEDULE_LABELS[schedule]}</option>
+                ))}
+              </select>
+            </div>
+
+            {formData.pointSchedule !== 'flat' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Bonus Round Points
+                </label>
+                <input
+                  type="number"
+                  value={formData.bonusRoundPoints}
+                  onChange={(e) => setFormData({ ...formData, bonusRoundPoints: Number(e.target.value) })}
+                  className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+                  min={MIN_BONUS_ROUND_POINTS}
+                  max={MAX_BONUS_ROUND_POINTS}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Hidden Information
+            </label>
+            <select
+              value={formData.disclosure}
+              onChange={(e) => setFormData({ ...formData, disclosure: e.target.value as DisclosureMode })}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+            >
+              {DISCLOSURE_MODES.map((mode) => (
+                <option key={mode} value={mode}>{DISCLOSURE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Tie Margin (ms)
+              </label>
+              <input
+                type="number"
+                value={formData.tieThresholdMs}
+                onChange={(e) => setFormData({ ...formData, tieThresholdMs: Number(e.target.value) })}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+                min={MIN_TIE_THRESHOLD_MS}
+                max={MAX_TIE_THRESHOLD_MS}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                On a Tie
+              </label>
+              <select
+                value={formData.tieBreak}
+                onChange={(e) => setFormData({ ...formData, tieBreak: e.target.value as TieBreak })}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+              >
+                {TIE_BREAKS.map((mode) => (
+                  <option key={mode} value={mode}>{TIE_BREAK_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              When a Bank Runs Out
+            </label>
+            <select
+              value={formData.elimination}
+              onChange={(e) => setFormData({ ...formData, elimination: e.target.value as EliminationMode })}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+            >
+              {ELIMINATION_MODES.map((mode) => (
+                <option key={mode} value={mode}>{ELIMINATION_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              When the Winner Is Certain
+            </label>
+            <select
+              value={formData.earlyFinish}
+              onChange={(e) => setFormData({ ...formData, earlyFinish: e.target.value as EarlyFinishMode })}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+            >
+              {EARLY_FINISH_MODES.map((mode) => (
+                <option key={mode} value={mode}>{EARLY_FINISH_LABELS[mode]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Spectator Delay (seconds)
+            </label>
+            <input
+              type="number"
+              value={formData.spectatorDelaySeconds}
+              onChange={(e) => setFormData({ ...formData, spectatorDelaySeconds: Number(e.target.value) })}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+              min={MIN_SPECTATOR_DELAY_SECONDS}
+              max={MAX_SPECTATOR_DELAY_SECONDS}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Hold Timeout (seconds, 0 = none)
+              </label>
+              <input
+                type="number"
+                value={formData.holdTimeoutSeconds}
+                onChange={(e) => setFormData({ ...formData, holdTimeoutSeconds: Number(e.target.value) })}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+                min={0}
+                max={MAX_HOLD_TIMEOUT_SECONDS}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Bidding Limit (seconds, 0 = none)
+              </label>
+              <input
+                type="number"
+                value={formData.maxBiddingSeconds}
+                onChange={(e) => setFormData({ ...formData, maxBiddingSeconds: Number(e.target.value) })}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-indigo-500"
+                min={0}
+                max={MAX_BIDDING_SECONDS}
+                required
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={formData.chatDuringBidding}
+              onChange={(e) => setFormData({ ...formData, chatDuringBidding: e.target.checked })}
+            />
+            Allow chat while bidding
+          </label>
+
           {error && (
             <div className="p-3 bg-red-900/50 border border-red-700 rounded-lg text-red-300 text-sm">
               {error}
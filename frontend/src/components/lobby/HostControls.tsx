@@ -1,21 +1,34 @@
-import type { Player } from '@shared/types'
+import { useState } from 'react'
+import type { BotStrategy, Player } from '@shared/types'
+import { BOT_STRATEGIES } from '@shared/constants'
+import { BOT_STRATEGY_LABELS } from '@/lib/labels'
 
 interface Props {
   players: Player[]
   currentPlayerId: string | null
   canStart: boolean
+  isFull: boolean
   onStartGame: () => void
   onKickPlayer: (playerId: string) => void
+  onTransferHost: (playerId: string) => void
+  onAddBot?: (strategy: BotStrategy) => void   // Omitted when the server can't seat bots
+  onRemoveBot: (playerId: string) => void
 }
 
 export default function HostControls({
   players,
   currentPlayerId,
   canStart,
+  isFull,
   onStartGame,
   onKickPlayer,
+  onTransferHost,
+  onAddBot,
+  onRemoveBot,
 }: Props) {
-  const otherPlayers = players.filter(p => p.id !== currentPlayerId)
+  const [botStrategy, setBotStrategy] = useState<BotStrategy>('fixed_fraction')
+  const otherPlayers = players.filter(p => p.id !== currentPlayerId && !p.botStrategy)
+  const bots = players.filter(p => p.botStrategy)
 
   return (
     <div className="mt-8 p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
@@ -33,6 +46,43 @@ export default function HostControls({
         {canStart ? 'Start Game' : 'Waiting for all players to be ready...'}
       </button>
 
+      {onAddBot && (
+      <div className="mb-4">
+        <p className="text-sm text-gray-500 mb-2">Add a bot:</p>
+        <div className="flex gap-2">
+          <select
+            value={botStrategy}
+            onChange={(e) => setBotStrategy(e.target.value as BotStrategy)}
+            className="flex-1 px-3 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+          >
+            {BOT_STRATEGIES.map(strategy => (
+              <option key={strategy} value={strategy}>{BOT_STRATEGY_LABELS[strategy]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onAddBot(botStrategy)}
+            disabled={isFull}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded transition-colors"
+          >
+            {isFull ? 'Table full' : 'Add Bot'}
+          </button>
+        </div>
+        {bots.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {bots.map((bot) => (
+              <button
+                key={bot.id}
+                onClick={() => onRemoveBot(bot.id)}
+                className="px-3 py-1 bg-red-900/50 hover:bg-red-800/50 border border-red-700 text-red-300 text-sm rounded transition-colors"
+              >
+                Remove {bot.displayName}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      )}
+
       {otherPlayers.length > 0 && (
         <div>
           <p className="text-sm text-gray-500 mb-2">Kick player:</p>
@@ -47,6 +97,20 @@ export default function HostControls({
               </button>
             ))}
           </div>
+
+          <p className="text-sm text-gray-500 mt-4 mb-2">Make host:</p>
+          <div className="flex flex-wrap gap-2">
+            {otherPlayers.map((player) => (
+              <button
+                key={player.id}
+                onClick={() => onTransferHost(player.id)}
+                disabled={!player.isConnected}
+                className="px-3 py-1 bg-indigo-900/50 hover:bg-indigo-800/50 disabled:opacity-50 disabled:cursor-not-allowed border border-indigo-700 text-indigo-300 text-sm rounded transition-colors"
+              >
+                {player.displayName}
+              </button>
+            ))}
+          </div>
         </div>
       )}
     </div>
@@ -1,22 +1,40 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
+import type { BotStrategy, ConnectionRole } from '@shared/types'
+import { validatePlayerName } from '@shared/validation'
 import { useGame } from '@/contexts/GameContext'
 import { useWebSocket } from '@/hooks/useWebSocket'
+import {
+  PAYMENT_RULE_LABELS,
+  POINT_SCHEDULE_LABELS,
+  DISCLOSURE_LABELS,
+  ELIMINATION_LABELS,
+  EARLY_FINISH_LABELS,
+  TIE_BREAK_LABELS,
+} from '@/lib/labels'
 import PlayerList from './PlayerList'
+import SpectatorList from './SpectatorList'
 import HostControls from './HostControls'
+import ReloadPrompt from '../common/ReloadPrompt'
+import ChatPanel from '../common/ChatPanel'
 
 function getStoredSession(tableId: string) {
   try {
     const stored = sessionStorage.getItem(`session_${tableId}`)
     if (stored) {
-      return JSON.parse(stored) as { playerName: string; reconnectToken: string }
+      return JSON.parse(stored) as { playerName: string; reconnectToken: string; role?: ConnectionRole }
     }
   } catch {}
   return null
 }
 
-function storeSession(tableId: string, playerName: string, reconnectToken: string) {
-  sessionStorage.setItem(`session_${tableId}`, JSON.stringify({ playerName, reconnectToken }))
+// Set by CreateTableForm; proves this browser created the table
+function getHostToken(tableId: string) {
+  return sessionStorage.getItem(`host_${tableId}`) ?? undefined
+}
+
+function storeSession(tableId: string, playerName: string, reconnectToken: string, role: ConnectionRole) {
+  sessionStorage.setItem(`session_${tableId}`, JSON.stringify({ playerName, reconnectToken, role }))
 }
 
 export default function LobbyPage() {
@@ -30,23 +48,37 @@ export default function LobbyPage() {
   const [joinError, setJoinError] = useState<string | null>(null)
   const [attemptedReconnect, setAttemptedReconnect] = useState(false)
 
-  const { sendMessage, isConnected } = useWebSocket(tableId ?? null, {
+  const { sendMessage, isConnected, protocolMismatch } = useWebSocket(tableId ?? null, {
+    onClockSync: (offsetMs, rttMs) => dispatch({ type: 'SET_CLOCK_SYNC', offsetMs, rttMs }),
     onMessage: (msg) => {
       if (msg.type === 'welcome') {
-        dispatch({ type: 'SET_PLAYER_INFO', playerId: msg.playerId, reconnectToken: msg.reconnectToken, serverTime: msg.serverTime })
+        dispatch({ type: 'SET_PLAYER_INFO', playerId: msg.playerId, reconnectToken: msg.reconnectToken, serverTime: msg.serverTime, role: msg.role, features: msg.features })
         // Store session for reconnection on refresh
         if (tableId && playerName) {
-          storeSession(tableId, playerName, msg.reconnectToken)
+          storeSession(tableId, playerName, msg.reconnectToken, msg.role)
         }
         setHasJoined(true)
       } else if (msg.type === 'lobbyState') {
-        dispatch({ type: 'SET_LOBBY_STATE', settings: msg.settings, players: msg.players, hostId: msg.hostId })
+        dispatch({ type: 'SET_LOBBY_STATE', settings: msg.settings, players: msg.players, hostId: msg.hostId, spectators: msg.spectators })
+      } else if (msg.type === 'spectatorsUpdate') {
+        dispatch({ type: 'SET_SPECTATORS', spectators: msg.spectators })
+      } else if (msg.type === 'gameState' && msg.state.status !== 'lobby') {
+        // Joined (usually as a spectator) after the game started
+        navigate(`/game/${tableId}/play`)
       } else if (msg.type === 'playerJoined') {
         dispatch({ type: 'PLAYER_JOINED', player: msg.player })
       } else if (msg.type === 'playerLeft') {
         dispatch({ type: 'PLAYER_LEFT', playerId: msg.playerId })
+      } else if (msg.type === 'hostChanged') {
+        dispatch({ type: 'HOST_CHANGED', hostId: msg.hostId })
+      } else if (msg.type === 'hostToken') {
+        sessionStorage.setItem(`host_${tableId}`, msg.hostToken)
       } else if (msg.type === 'playerReady') {
         dispatch({ type: 'PLAYER_READY', playerId: msg.playerId, isReady: msg.isReady })
+      } else if (msg.type === 'chatHistory') {
+        dispatch({ type: 'SET_CHAT_HISTORY', messages: msg.messages })
+      } else if (msg.type === 'chatMessage') {
+        dispatch({ type: 'ADD_CHAT_MESSAGE', message: msg.message })
       } else if (msg.type === 'gameStarting') {
         // Redirect to game page
         navigate(`/game/${tableId}/play`)
@@ -84,13 +116,14 @@ export default function LobbyPage() {
           type: 'join',
           playerName: storedSession.playerName,
           reconnectToken: storedSession.reconnectToken,
+          hostToken: getHostToken(tableId),
+          role: storedSession.role,
         })
       }
     }
   }, [isConnected, tableId, hasJoined, attemptedReconnect, sendMessage])
 
-  const handleJoin = (e: React.FormEvent) => {
-    e.preventDefault()
+  const joinAs = (role: ConnectionRole) => {
     setJoinError(null)
 
     if (!playerName.trim()) {
@@ -98,13 +131,26 @@ export default function LobbyPage() {
       return
     }
 
+    const name = validatePlayerName(playerName)
+    if (!name.ok) {
+      setJoinError(name.error.message)
+      return
+    }
+
     sendMessage({
       type: 'join',
-      playerName: playerName.trim(),
+      playerName: name.value,
       password: password || undefined,
+      hostToken: tableId ? getHostToken(tableId) : undefined,
+      role,
     })
   }
 
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault()
+    joinAs('player')
+  }
+
   const handleReady = () => {
     const currentPlayer = state.players.find(p => p.id === state.playerId)
     if (currentPlayer) {
@@ -120,10 +166,26 @@ export default function LobbyPage() {
     sendMessage({ type: 'kick', playerId })
   }
 
+  const handleTransferHost = (playerId: string) => {
+    sendMessage({ type: 'transferHost', playerId })
+  }
+
+  const handleAddBot = (strategy: BotStrategy) => {
+    sendMessage({ type: 'addBot', strategy })
+  }
+
+  const handleRemoveBot = (playerId: string) => {
+    sendMessage({ type: 'removeBot', playerId })
+  }
+
   const copyLink = () => {
     navigator.clipboard.writeText(window.location.href)
   }
 
+  if (protocolMismatch) {
+    return <ReloadPrompt message={protocolMismatch} />
+  }
+
   if (!hasJoined) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-4">
@@ -176,6 +238,15 @@ export default function LobbyPage() {
             >
               {isConnected ? 'Join Game' : 'Connecting...'}
             </button>
+
+            <button
+              type="button"
+              onClick={() => joinAs('spectator')}
+              disabled={!isConnected}
+              className="w-full py-3 px-6 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+            >
+              Watch as Spectator
+            </button>
           </form>
         </div>
       </div>
@@ -183,6 +254,7 @@ export default function LobbyPage() {
   }
 
   const currentPlayer = state.players.find(p => p.id === state.playerId)
+  const isSpectator = state.role === 'spectator'
   const allReady = state.players.length >= 2 && state.players.every(p => p.isReady)
 
   return (
@@ -191,7 +263,9 @@ export default function LobbyPage() {
         <div className="flex justify-between items-start mb-8">
           <div>
             <h1 className="text-3xl font-bold text-white">{state.settings?.tableName}</h1>
-            <p className="text-gray-400">Waiting for players...</p>
+            <p className="text-gray-400">
+              {isSpectator ? 'Spectating - waiting for the game to start...' : 'Waiting for players...'}
+            </p>
           </div>
           <button
             onClick={copyLink}
@@ -208,6 +282,28 @@ export default function LobbyPage() {
             <div>Rounds: <span className="text-white">{state.settings?.numRounds}</span></div>
             <div>Max Players: <span className="text-white">{state.settings?.maxPlayers}</span></div>
             <div>Grace Period: <span className="text-white">{state.settings ? state.settings.gracePeriodMs / 1000 : 0}s</span></div>
+            <div className="col-span-2">Who Pays: <span className="text-white">{state.settings ? PAYMENT_RULE_LABELS[state.settings.paymentRule] : ''}</span></div>
+            <div className="col-span-2">
+              Round Points: <span className="text-white">{state.settings ? POINT_SCHEDULE_LABELS[state.settings.pointSchedule] : ''}</span>
+              {state.settings && state.settings.pointSchedule !== 'flat' && (
+                <span className="text-white"> ({state.settings.bonusRoundPoints} pts)</span>
+              )}
+            </div>
+            <div className="col-span-2">Hidden Information: <span className="text-white">{state.settings ? DISCLOSURE_LABELS[state.settings.disclosure] : ''}</span></div>
+            <div className="col-span-2">
+              On a Tie: <span className="text-white">{state.settings ? TIE_BREAK_LABELS[state.settings.tieBreak] : ''}</span>
+              {state.settings && (
+                <span className="text-white"> (within {state.settings.tieThresholdMs}ms)</span>
+              )}
+            </div>
+            <div className="col-span-2">When a Bank Runs Out: <span className="text-white">{state.settings ? ELIMINATION_LABELS[state.settings.elimination] : ''}</span></div>
+            <div className="col-span-2">When the Winner Is Certain: <span className="text-white">{state.settings ? EARLY_FINISH_LABELS[state.settings.earlyFinish] : ''}</span></div>
+            <div>Hold Timeout: <span className="text-white">{state.settings?.holdTimeoutMs ? `${state.settings.holdTimeoutMs / 1000}s` : 'None'}</span></div>
+            <div>Bidding Limit: <span className="text-white">{state.settings?.maxBiddingMs ? `${state.settings.maxBiddingMs / 1000}s` : 'None'}</span></div>
+            <div className="col-span-2">Chat While Bidding: <span className="text-white">{state.settings?.chatDuringBidding === false ? 'Closed' : 'Open'}</span></div>
+            {state.settings && state.settings.spectatorDelayMs > 0 && (
+              <div className="col-span-2">Spectator Delay: <span className="text-white">{state.settings.spectatorDelayMs / 1000}s</span></div>
+            )}
           </div>
         </div>
 
@@ -217,6 +313,12 @@ export default function LobbyPage() {
           hostId={state.hostId}
         />
 
+        <SpectatorList
+          spectators={state.spectators}
+          currentPlayerId={state.playerId}
+        />
+
+        {!isSpectator && (
         <div className="mt-6 flex gap-4">
           <button
             onClick={handleReady}
@@ -229,14 +331,28 @@ export default function LobbyPage() {
             {currentPlayer?.isReady ? 'Ready!' : 'Click when Ready'}
           </button>
         </div>
+        )}
 
         {state.isHost && (
           <HostControls
             players={state.players}
             currentPlayerId={state.playerId}
             canStart={allReady}
+            isFull={state.players.length >= (state.settings?.maxPlayers ?? Infinity)}
             onStartGame={handleStartGame}
             onKickPlayer={handleKickPlayer}
+            onTransferHost={handleTransferHost}
+            onAddBot={state.features.includes('bots') ? handleAddBot : undefined}
+            onRemoveBot={handleRemoveBot}
+          />
+        )}
+
+        {state.features.includes('chat') && (
+          <ChatPanel
+            messages={state.chat}
+            currentPlayerId={state.playerId}
+            closedReason={null}
+            onSend={(text) => sendMessage({ type: 'chat', text })}
           />
         )}
       </div>
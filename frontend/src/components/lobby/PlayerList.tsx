@@ -1,4 +1,6 @@
 import type { Player } from '@shared/types'
+import { formatPoints } from '@/lib/format'
+import { BOT_STRATEGY_LABELS } from '@/lib/labels'
 
 interface Props {
   players: Player[]
@@ -7,6 +9,8 @@ interface Props {
 }
 
 export default function PlayerList({ players, currentPlayerId, hostId }: Props) {
+  const isSeries = players.some(p => p.seriesPoints > 0)
+
   return (
     <div className="space-y-2">
       <h3 className="text-sm font-medium text-gray-400 mb-3">
@@ -36,8 +40,16 @@ export default function PlayerList({ players, currentPlayerId, hostId }: Props)
                 Host
               </span>
             )}
+            {player.botStrategy && (
+              <span className="text-xs bg-gray-600 text-gray-200 px-2 py-0.5 rounded" title="Played by the server">
+                Bot · {BOT_STRATEGY_LABELS[player.botStrategy]}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
+            {isSeries && (
+              <span className="text-indigo-300 text-sm">{formatPoints(player.seriesPoints)} series pts</span>
+            )}
             {player.isReady ? (
               <span className="text-green-400 text-sm">Ready</span>
             ) : (
@@ -0,0 +1,38 @@
+import type { Spectator } from '@shared/types'
+
+interface Props {
+  spectators: Spectator[]
+  currentPlayerId: string | null
+}
+
+export default function SpectatorList({ spectators, currentPlayerId }: Props) {
+  if (spectators.length === 0) return null
+
+  return (
+    <div className="mt-6 space-y-2">
+      <h3 className="text-sm font-medium text-gray-400 mb-3">
+        Spectators ({spectators.length})
+      </h3>
+      <div className="flex flex-wrap gap-2">
+        {spectators.map((spectator) => (
+          <div
+            key={spectator.id}
+            className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm ${
+              spectator.id === currentPlayerId
+                ? 'bg-indigo-900/50 border border-indigo-700 text-indigo-300'
+                : 'bg-gray-800 text-gray-300'
+            }`}
+          >
+            <div
+              className={`w-2 h-2 rounded-full ${
+                spectator.isConnected ? 'bg-green-500' : 'bg-gray-500'
+              }`}
+            />
+            {spectator.displayName}
+            {spectator.id === currentPlayerId && ' (You)'}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import type { TableEvent, TableEventsResponse } from '@shared/types'
+import { MAX_EVENTS_PAGE_SIZE } from '@shared/constants'
+import { API_BASE_URL } from '@/lib/config'
+import { formatPoints } from '@/lib/format'
+import { buildFrame, buildRoundTimelines, eventIndexAt, listPlayers, splitGames } from '@/lib/replay'
+import BidButton from '../game/BidButton'
+import PlayerBidStatus from '../game/PlayerBidStatus'
+import ReplayTimeline from './ReplayTimeline'
+
+const SPEEDS = [0.5, 1, 2, 4, 8]
+const TICK_MS = 100
+
+export default function ReplayPage() {
+  const { tableId } = useParams<{ tableId: string }>()
+  const navigate = useNavigate()
+  const [events, setEvents] = useState<TableEvent[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [gameIndex, setGameIndex] = useState(0)
+  const [positionMs, setPositionMs] = useState(0)   // Since the game started
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [followId, setFollowId] = useState<string | null>(null)
+
+  // Load the whole log, a page at a time
+  useEffect(() => {
+    let cancelled = false
+    const hostToken = sessionStorage.getItem(`host_${tableId}`)
+    const headers: HeadersInit = hostToken ? { Authorization: `Bearer ${hostToken}` } : {}
+
+    const load = async () => {
+      try {
+        const loaded: TableEvent[] = []
+        let after = 0
+        for (;;) {
+          const response = await fetch(
+            `${API_BASE_URL}/api/tables/${tableId}/events?after=${after}&limit=${MAX_EVENTS_PAGE_SIZE}`,
+            { headers }
+          )
+          if (!response.ok) {
+            const data = await response.json()
+            throw new Error(data.error || 'Failed to load the replay')
+          }
+          const page = await response.json() as TableEventsResponse
+          loaded.push(...page.events)
+          if (page.nextCursor === null) break
+          after = page.nextCursor
+        }
+        if (!cancelled) setEvents(loaded)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the replay')
+      }
+    }
+    load()
+
+    return () => {
+      cancelled = true
+    }
+  }, [tableId])
+
+  const games = useMemo(() => splitGames(events ?? []), [events])
+  const game = games[Math.min(gameIndex, games.length - 1)] ?? null
+  const durationMs = game ? game.endAt - game.startAt : 0
+  const atEnd = positionMs >= durationMs
+  const playing = isPlaying && !atEnd
+  const now = (game?.startAt ?? 0) + positionMs
+
+  useEffect(() => {
+    if (!playing) return
+    const interval = setInterval(() => {
+      setPositionMs(p => Math.min(p + TICK_MS * speed, durationMs))
+    }, TICK_MS)
+    return () => clearInterval(interval)
+  }, [playing, speed, durationMs])
+
+  const frame = useMemo(() => {
+    if (!events || !game) return null
+    return buildFrame(events, Math.max(game.startIndex, eventIndexAt(events, now)))
+  }, [events, game, now])
+
+  const rounds = useMemo(
+    () => (events && game ? buildRoundTimelines(events, game) : []),
+    [events, game]
+  )
+
+  const roster = useMemo(
+    () => (events && game ? listPlayers(events, game) : []),
+    [events, game]
+  )
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="text-red-400 mb-4 text-center">{error}</div>
+        <button
+          onClick={() => navigate(`/game/${tableId}`)}
+          className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg"
+        >
+          Back to Table
+        </button>
+      </div>
+    )
+  }
+
+  if (!events) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-gray-400">Loading replay...</div>
+      </div>
+    )
+  }
+
+  if (!game || !frame) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="text-gray-400 mb-4">No games have been played at this table yet.</div>
+        <button
+          onClick={() => navigate(`/game/${tableId}`)}
+          className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg"
+        >
+          Back to Table
+        </button>
+      </div>
+    )
+  }
+
+  const followedId = followId ?? frame.players[0]?.id ?? null
+  const followed = frame.players.find(p => p.id === followedId)
+  const isFollowedHolding = followedId !== null && frame.playersHolding.has(followedId)
+
+  // Time counted so far for the followed player, while they hold into bidding
+  const currentRound = rounds.find(r => r.round === frame.round)
+  const openBar = currentRound?.bars.find(b =>
+    b.playerId === followedId && b.start <= now && (b.end === null || b.end > now)
+  )
+  const currentBidMs = openBar && currentRound?.biddingAt != null && now > currentRound.biddingAt
+    ? now - Math.max(openBar.start, currentRound.biddingAt)
+    : null
+
+  const handlePlay = () => {
+    if (atEnd) setPositionMs(0)
+    setIsPlaying(!playing)
+  }
+
+  const handleSeek = (at: number) => {
+    setPositionMs(Math.min(Math.max(0, at - game.startAt), durationMs))
+  }
+
+  const getPhaseMessage = () => {
+    if (frame.isPaused) return 'Paused by the host'
+    if (frame.status === 'finished') return 'Game over'
+    switch (frame.phase) {
+      case 'pre_round':
+        return 'Get ready...'
+      case 'waiting_for_holds':
+        return `Waiting for holds (${frame.playersHolding.size} holding)`
+      case 'grace_period':
+        return 'Grace period'
+      case 'bidding':
+        return `Bidding (${frame.playersHolding.size} still holding)`
+      case 'resolution': {
+        const result = frame.lastResult
+        if (!result || result.awards.length === 0) return 'Round complete - no winner'
+        const names = result.awards.map(a => frame.players.find(p => p.id === a.playerId)?.displayName ?? 'Unknown')
+        return `Round complete - ${names.join(', ')} scored ${formatPoints(result.awards[0].points)}`
+      }
+      default:
+        return ''
+    }
+  }
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Replay</h1>
+            <div className="text-gray-500 text-sm">{frame.settings?.tableName ?? tableId}</div>
+          </div>
+          <div className="text-right">
+            <div className="text-gray-400">
+              Round {Math.max(frame.round, 1)} of {frame.totalRounds || frame.settings?.numRounds || '?'}
+            </div>
+            <div className={frame.roundPoints > 1 ? 'text-yellow-400 font-semibold' : 'text-gray-500 text-sm'}>
+              Worth {frame.roundPoints} {frame.roundPoints === 1 ? 'point' : 'points'}
+            </div>
+          </div>
+        </div>
+
+        {/* Playback controls */}
+        <div className="bg-gray-800 rounded-lg p-4 mb-6 space-y-3">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handlePlay}
+              className="w-20 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={durationMs}
+              step={TICK_MS}
+              value={Math.min(positionMs, durationMs)}
+              onChange={(e) => setPositionMs(Number(e.target.value))}
+              className="flex-1"
+              aria-label="Replay position"
+            />
+            <div className="w-28 text-right font-mono text-sm text-gray-400">
+              {formatTime(positionMs)} / {formatTime(durationMs)}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-400">
+            <label className="flex items-center gap-2">
+              Speed
+              <select
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                className="px-2 py-1 bg-gray-700 text-white rounded"
+              >
+                {SPEEDS.map(s => <option key={s} value={s}>{s}x</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Follow
+              <select
+                value={followedId ?? ''}
+                onChange={(e) => setFollowId(e.target.value)}
+                className="px-2 py-1 bg-gray-700 text-white rounded"
+              >
+                {frame.players.map(p => <option key={p.id} value={p.id}>{p.displayName}</option>)}
+              </select>
+            </label>
+            {games.length > 1 && (
+              <label className="flex items-center gap-2">
+                Game
+                <select
+                  value={gameIndex}
+                  onChange={(e) => {
+                    setGameIndex(Number(e.target.value))
+                    setPositionMs(0)
+                    setIsPlaying(false)
+                  }}
+                  className="px-2 py-1 bg-gray-700 text-white rounded"
+                >
+                  {games.map((_, i) => <option key={i} value={i}>Game {i + 1}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+        </div>
+
+        {/* The followed player's view */}
+        <div className="bg-gray-800 rounded-xl p-6 mb-6">
+          <div className="text-center mb-6">
+            <div className="text-gray-400 text-sm mb-1">{followed?.displayName ?? 'Player'}'s Time Bank</div>
+            <div className="text-4xl font-mono font-bold text-white">
+              {formatTime(followed?.timeRemainingMs ?? 0)}
+            </div>
+          </div>
+
+          <div className={`text-center mb-4 text-lg font-semibold ${
+            frame.phase === 'bidding' ? 'text-red-400' :
+            frame.phase === 'grace_period' ? 'text-green-400' :
+            frame.phase === 'waiting_for_holds' ? 'text-yellow-400' :
+            'text-gray-400'
+          }`}>
+            {getPhaseMessage()}
+          </div>
+
+          <BidButton
+            onBidStart={() => {}}
+            onBidEnd={() => {}}
+            isHolding={isFollowedHolding}
+            roundPhase={frame.phase}
+            disabled={false}
+            isBankEmpty={followed?.isEliminated || (followedId !== null && frame.playersBankEmpty.has(followedId))}
+            readOnly
+          />
+
+          {currentBidMs !== null && (
+            <div className="text-center mt-4">
+              <div className="text-sm text-gray-400">Current Bid</div>
+              <div className="text-2xl font-mono text-red-400">{formatTime(currentBidMs)}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="mb-6">
+          <PlayerBidStatus
+            players={frame.players}
+            playerBids={frame.playerBids}
+            currentPlayerId={followedId}
+            playersHolding={frame.playersHolding}
+            playersBankEmpty={frame.playersBankEmpty}
+            hideHolding={false}
+          />
+        </div>
+
+        <ReplayTimeline rounds={rounds} players={roster} now={now} onSeek={handleSeek} />
+      </div>
+    </div>
+  )
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  const tenths = Math.floor((ms % 1000) / 100)
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${tenths}`
+}
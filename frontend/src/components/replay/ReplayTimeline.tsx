@@ -0,0 +1,91 @@
+import type { Player } from '@shared/types'
+import type { RoundTimeline } from '@/lib/replay'
+
+interface Props {
+  rounds: RoundTimeline[]
+  players: Player[]
+  now: number                   // Replay position, in server time
+  onSeek: (at: number) => void
+}
+
+export default function ReplayTimeline({ rounds, players, now, onSeek }: Props) {
+  const getName = (playerId: string) =>
+    players.find(p => p.id === playerId)?.displayName ?? 'Unknown'
+
+  if (rounds.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-4 text-gray-500 text-sm">
+        No rounds were played in this game.
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-6">
+      <h3 className="text-sm font-medium text-gray-400">Holds and Releases</h3>
+      {rounds.map((round) => {
+        // A round cut short by the end of the log runs to the replay position
+        const endAt = round.endAt ?? Math.max(now, round.startAt + 1)
+        const span = endAt - round.startAt
+        const offset = (at: number) => `${Math.min(100, Math.max(0, ((at - round.startAt) / span) * 100))}%`
+        const width = (from: number, to: number) => `${Math.max(0.5, ((to - from) / span) * 100)}%`
+        const playerIds = [...new Set(round.bars.map(b => b.playerId))]
+        const isCurrent = now >= round.startAt && now <= endAt
+        const scorers = round.result?.awards.map(a => getName(a.playerId)) ?? []
+
+        return (
+          <div key={round.round}>
+            <button
+              onClick={() => onSeek(round.startAt)}
+              className={`w-full flex justify-between text-sm mb-2 ${isCurrent ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              <span>Round {round.round} · {round.points} {round.points === 1 ? 'point' : 'points'}</span>
+              <span>
+                {round.result
+                  ? scorers.length > 0 ? `Scored: ${scorers.join(', ')}` : 'No winner'
+                  : 'Unfinished'}
+              </span>
+            </button>
+
+            <div className="space-y-1">
+              {playerIds.length === 0 && (
+                <div className="text-gray-500 text-sm">Nobody held the button.</div>
+              )}
+              {playerIds.map((playerId) => (
+                <div key={playerId} className="flex items-center gap-2">
+                  <div className="w-24 shrink-0 truncate text-xs text-gray-400">{getName(playerId)}</div>
+                  <div className="relative flex-1 h-4 bg-gray-700/50 rounded">
+                    {/* Grace period, then bidding */}
+                    {round.graceAt !== null && (
+                      <div
+                        className="absolute inset-y-0 bg-green-900/40"
+                        style={{ left: offset(round.graceAt), width: width(round.graceAt, round.biddingAt ?? endAt) }}
+                      />
+                    )}
+                    {round.biddingAt !== null && (
+                      <div
+                        className="absolute inset-y-0 bg-red-900/30"
+                        style={{ left: offset(round.biddingAt), width: width(round.biddingAt, endAt) }}
+                      />
+                    )}
+                    {round.bars.filter(b => b.playerId === playerId).map((bar, i) => (
+                      <div
+                        key={i}
+                        className={`absolute top-1 bottom-1 rounded ${bar.counted ? 'bg-red-500' : 'bg-yellow-500'}`}
+                        style={{ left: offset(bar.start), width: width(bar.start, bar.end ?? endAt) }}
+                        title={bar.end === null ? 'Still holding' : bar.counted ? 'Released while bidding' : 'Released before bidding'}
+                      />
+                    ))}
+                    {isCurrent && (
+                      <div className="absolute inset-y-0 w-px bg-white" style={{ left: offset(now) }} />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,13 +1,23 @@
-import { useNavigate } from 'react-router-dom'
-import type { FinalStanding } from '@shared/types'
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import type { FinalStanding, GameEndReason } from '@shared/types'
+import { GAME_END_REASON_LABELS } from '@/lib/labels'
+import { formatPoints } from '@/lib/format'
 
 interface Props {
   standings: FinalStanding[]
+  reason: GameEndReason | null
   currentPlayerId: string | null
+  isHost: boolean
+  onRematch: (keepSeriesScore: boolean) => void
 }
 
-export default function FinalResults({ standings, currentPlayerId }: Props) {
+export default function FinalResults({ standings, reason, currentPlayerId, isHost, onRematch }: Props) {
   const navigate = useNavigate()
+  const { tableId } = useParams<{ tableId: string }>()
+  const [keepSeriesScore, setKeepSeriesScore] = useState(true)
+  // Only worth showing once a previous game has been carried over
+  const isSeries = standings.some(s => s.seriesPoints !== s.victoryPoints)
 
   const getMedal = (rank: number): string => {
     switch (rank) {
@@ -22,7 +32,10 @@ export default function FinalResults({ standings, currentPlayerId }: Props) {
     <div className="min-h-screen flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-lg">
         <h1 className="text-4xl font-bold text-white text-center mb-2">Game Over!</h1>
-        <p className="text-gray-400 text-center mb-8">Final Standings</p>
+        <p className="text-gray-400 text-center mb-2">Final Standings</p>
+        <p className="text-gray-500 text-center text-sm mb-8">
+          {reason ? GAME_END_REASON_LABELS[reason] : ''}
+        </p>
 
         <div className="space-y-3 mb-8">
           {standings.map((standing) => {
@@ -51,22 +64,51 @@ export default function FinalResults({ standings, currentPlayerId }: Props) {
                   </div>
                   <div className="text-sm text-gray-400">
                     Last win: {standing.lastWinRound ? `Round ${standing.lastWinRound}` : 'None'}
+                    {standing.isEliminated && <span className="text-red-400"> · Out of time</span>}
                   </div>
                 </div>
 
                 <div className="text-right">
                   <div className="text-xl font-bold text-white">
-                    {standing.victoryPoints} pts
+                    {formatPoints(standing.victoryPoints)} pts
                   </div>
                   <div className="text-sm text-gray-400">
                     {formatTime(standing.timeRemainingMs)} left
                   </div>
+                  {isSeries && (
+                    <div className="text-sm text-indigo-300">
+                      Series: {formatPoints(standing.seriesPoints)} pts
+                    </div>
+                  )}
                 </div>
               </div>
             )
           })}
         </div>
 
+        {isHost ? (
+          <div className="mb-4 p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+            <button
+              onClick={() => onRematch(keepSeriesScore)}
+              className="w-full py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition-colors"
+            >
+              Rematch
+            </button>
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={keepSeriesScore}
+                onChange={(e) => setKeepSeriesScore(e.target.checked)}
+              />
+              Keep a running series score
+            </label>
+          </div>
+        ) : (
+          <p className="text-gray-400 text-center text-sm mb-4">
+            The host can start a rematch at this table
+          </p>
+        )}
+
         <div className="flex gap-4">
           <button
             onClick={() => navigate('/')}
@@ -77,7 +119,7 @@ export default function FinalResults({ standings, currentPlayerId }: Props) {
           <button
             onClick={() => {
               const text = standings
-                .map(s => `${s.rank}. ${s.displayName}: ${s.victoryPoints} pts`)
+                .map(s => `${s.rank}. ${s.displayName}: ${formatPoints(s.victoryPoints)} pts`)
                 .join('\n')
               navigator.clipboard.writeText(`Time Auction Results:\n${text}`)
             }}
@@ -86,6 +128,13 @@ export default function FinalResults({ standings, currentPlayerId }: Props) {
             Share Results
           </button>
         </div>
+
+        <button
+          onClick={() => navigate(`/game/${tableId}/replay`)}
+          className="w-full mt-4 py-3 bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold rounded-lg transition-colors"
+        >
+          Watch Replay
+        </button>
       </div>
     </div>
   )
@@ -1,12 +1,27 @@
 import { createContext, useContext, useReducer, type ReactNode } from 'react'
-import type { Player, TableSettings, GameState, RoundResult, FinalStanding } from '@shared/types'
+import type {
+  Player,
+  Spectator,
+  ConnectionRole,
+  TableSettings,
+  GameState,
+  RoundResult,
+  FinalStanding,
+  GameEndReason,
+  ProtocolFeature,
+  ChatMessage,
+} from '@shared/types'
+import { CHAT_HISTORY_SIZE, V1_PROTOCOL_FEATURES } from '@shared/constants'
 
 interface GameContextState {
   // Connection
   connectionState: 'disconnected' | 'connecting' | 'connected' | 'reconnecting'
   playerId: string | null
   reconnectToken: string | null
-  serverTimeOffset: number
+  serverTimeOffset: number             // Server clock minus local clock
+  rttMs: number | null                 // Best measured round trip; null until synced
+  role: ConnectionRole
+  features: ProtocolFeature[]          // Agreed with the server in welcome
 
   // Table info
   tableId: string | null
@@ -16,25 +31,38 @@ interface GameContextState {
 
   // Lobby
   players: Player[]
+  spectators: Spectator[]
 
   // Game
   gameState: GameState | null
   roundResults: RoundResult[]
   finalStandings: FinalStanding[] | null
+  gameEndReason: GameEndReason | null
+
+  // Chat, kept across the lobby and the game
+  chat: ChatMessage[]
 }
 
 type GameAction =
   | { type: 'SET_CONNECTION_STATE'; state: GameContextState['connectionState'] }
-  | { type: 'SET_PLAYER_INFO'; playerId: string; reconnectToken: string; serverTime: number }
+  | { type: 'SET_PLAYER_INFO'; playerId: string; reconnectToken: string; serverTime: number; role: ConnectionRole; features?: ProtocolFeature[] }
+  | { type: 'SET_CLOCK_SYNC'; offsetMs: number; rttMs: number }
   | { type: 'SET_TABLE_ID'; tableId: string }
-  | { type: 'SET_LOBBY_STATE'; settings: TableSettings; players: Player[]; hostId: string }
+  | { type: 'SET_LOBBY_STATE'; settings: TableSettings; players: Player[]; hostId: string; spectators: Spectator[] }
+  | { type: 'SET_SPECTATORS'; spectators: Spectator[] }
   | { type: 'UPDATE_PLAYERS'; players: Player[] }
   | { type: 'PLAYER_JOINED'; player: Player }
   | { type: 'PLAYER_LEFT'; playerId: string }
   | { type: 'PLAYER_READY'; playerId: string; isReady: boolean }
+  | { type: 'PLAYER_CONNECTION'; playerId: string; isConnected: boolean }
+  | { type: 'HOST_CHANGED'; hostId: string }
+  | { type: 'PLAYER_ELIMINATED'; playerId: string }
   | { type: 'SET_GAME_STATE'; state: GameState }
   | { type: 'ADD_ROUND_RESULT'; result: RoundResult }
-  | { type: 'SET_FINAL_STANDINGS'; standings: FinalStanding[] }
+  | { type: 'SET_FINAL_STANDINGS'; standings: FinalStanding[]; reason: GameEndReason }
+  | { type: 'RETURN_TO_LOBBY' }
+  | { type: 'SET_CHAT_HISTORY'; messages: ChatMessage[] }
+  | { type: 'ADD_CHAT_MESSAGE'; message: ChatMessage }
   | { type: 'RESET' }
 
 const initialState: GameContextState = {
@@ -42,14 +70,20 @@ const initialState: GameContextState = {
   playerId: null,
   reconnectToken: null,
   serverTimeOffset: 0,
+  rttMs: null,
+  role: 'player',
+  features: [],
   tableId: null,
   settings: null,
   hostId: null,
   isHost: false,
   players: [],
+  spectators: [],
   gameState: null,
   roundResults: [],
   finalStandings: null,
+  gameEndReason: null,
+  chat: [],
 }
 
 function gameReducer(state: GameContextState, action: GameAction): GameContextState {
@@ -62,9 +96,17 @@ function gameReducer(state: GameContextState, action: GameAction): GameContextSt
         ...state,
         playerId: action.playerId,
         reconnectToken: action.reconnectToken,
-        serverTimeOffset: action.serverTime - Date.now(),
+        // A rough guess until the ping/pong sync has measured it properly
+        serverTimeOffset: state.rttMs === null ? action.serverTime - Date.now() : state.serverTimeOffset,
+        role: action.role,
+        // Servers from before versioning don't list theirs
+        features: action.features ?? [...V1_PROTOCOL_FEATURES],
+        isHost: state.hostId === action.playerId,
       }
 
+    case 'SET_CLOCK_SYNC':
+      return { ...state, serverTimeOffset: action.offsetMs, rttMs: action.rttMs }
+
     case 'SET_TABLE_ID':
       return { ...state, tableId: action.tableId }
 
@@ -75,14 +117,21 @@ function gameReducer(state: GameContextState, action: GameAction): GameContextSt
         players: action.players,
         hostId: action.hostId,
         isHost: action.hostId === state.playerId,
+        spectators: action.spectators,
       }
 
-    case 'UPDATE_PLAYERS':
+    case 'SET_SPECTATORS':
+      return { ...state, spectators: action.spectators }
+
+    case 'UPDATE_PLAYERS': {
+      const hostId = action.players.find(p => p.isHost)?.id ?? state.hostId
       return {
         ...state,
         players: action.players,
-        isHost: state.hostId === state.playerId,
+        hostId,
+        isHost: hostId === state.playerId,
       }
+    }
 
     case 'PLAYER_JOINED':
       return {
@@ -104,14 +153,60 @@ function gameReducer(state: GameContextState, action: GameAction): GameContextSt
         ),
       }
 
+    case 'PLAYER_CONNECTION':
+      return {
+        ...state,
+        players: state.players.map(p =>
+          p.id === action.playerId ? { ...p, isConnected: action.isConnected } : p
+        ),
+      }
+
+    case 'PLAYER_ELIMINATED':
+      return {
+        ...state,
+        players: state.players.map(p =>
+          p.id === action.playerId ? { ...p, isEliminated: true } : p
+        ),
+      }
+
+    case 'HOST_CHANGED':
+      return {
+        ...state,
+        hostId: action.hostId,
+        isHost: action.hostId === state.playerId,
+        players: state.players.map(p => ({ ...p, isHost: p.id === action.hostId })),
+      }
+
     case 'SET_GAME_STATE':
       return { ...state, gameState: action.state }
 
     case 'ADD_ROUND_RESULT':
-      return { ...state, roundResults: [...state.roundResults, action.result] }
+      // A snapshot can carry a result we already have
+      return {
+        ...state,
+        roundResults: [...state.roundResults.filter(r => r.roundNumber !== action.result.roundNumber), action.result],
+      }
 
     case 'SET_FINAL_STANDINGS':
-      return { ...state, finalStandings: action.standings }
+      return { ...state, finalStandings: action.standings, gameEndReason: action.reason }
+
+    case 'RETURN_TO_LOBBY':
+      return {
+        ...state,
+        gameState: null,
+        roundResults: [],
+        finalStandings: null,
+        gameEndReason: null,
+      }
+
+    case 'SET_CHAT_HISTORY':
+      return { ...state, chat: action.messages }
+
+    case 'ADD_CHAT_MESSAGE':
+      return {
+        ...state,
+        chat: [...state.chat.filter(m => m.id !== action.message.id), action.message].slice(-CHAT_HISTORY_SIZE),
+      }
 
     case 'RESET':
       return initialState
@@ -1,24 +1,47 @@
 import { useEffect, useRef, useCallback, useState } from 'react'
-import type { ClientMessage, ServerMessage } from '@shared/types'
+import type { ClientMessage, SequencedServerMessage, ServerMessage } from '@shared/types'
+import {
+  CLOCK_SYNC_BURST,
+  CLOCK_SYNC_INTERVAL_MS,
+  CLOCK_SYNC_SAMPLES,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_VERSION,
+} from '@shared/constants'
 import { WS_BASE_URL } from '@/lib/config'
 
 interface UseWebSocketOptions {
   onMessage?: (message: ServerMessage) => void
   onConnect?: () => void
   onDisconnect?: () => void
+  // Server clock minus local clock, and the round trip it was measured over
+  onClockSync?: (offsetMs: number, rttMs: number) => void
+}
+
+interface ClockSample {
+  rttMs: number
+  offsetMs: number
 }
 
 export function useWebSocket(tableId: string | null, options: UseWebSocketOptions = {}) {
   const wsRef = useRef<WebSocket | null>(null)
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const syncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const clockSamplesRef = useRef<ClockSample[]>([])
+  const syncPingsLeftRef = useRef(0)
+  const protocolMismatchRef = useRef(false)
+  const lastSeqRef = useRef(0)               // Numbering restarts with each socket
+  const resyncPendingRef = useRef(false)     // Asked for a snapshot and waiting on it
   const [isConnected, setIsConnected] = useState(false)
+  // Set once the server and this page can't talk; reloading is the only fix
+  const [protocolMismatch, setProtocolMismatch] = useState<string | null>(null)
 
   // Store callbacks in refs to avoid re-creating connect function
   const optionsRef = useRef(options)
   optionsRef.current = options
 
   const connect = useCallback(() => {
-    if (!tableId) return
+    if (!tableId || protocolMismatchRef.current) return
 
     // Don't connect if already connected or connecting
     if (wsRef.current?.readyState === WebSocket.OPEN ||
@@ -31,15 +54,79 @@ export function useWebSocket(tableId: string | null, options: UseWebSocketOption
     const ws = new WebSocket(wsUrl)
     wsRef.current = ws
 
+    // NTP-style clock sync: a short burst of pings, each sent the moment the
+    // previous pong lands and echoing its serverTime so the server can time
+    // the round trip as well
+    const sendPing = (echo?: number) => {
+      syncPingsLeftRef.current--
+      const ping: ClientMessage = { type: 'ping', clientTime: Date.now(), echo }
+      ws.send(JSON.stringify(ping))
+    }
+    const startClockSync = () => {
+      syncPingsLeftRef.current = CLOCK_SYNC_BURST
+      sendPing()
+    }
+
+    const giveUp = (reason: string) => {
+      protocolMismatchRef.current = true
+      setProtocolMismatch(reason)
+      ws.close()
+    }
+
+    // Drop repeats. A gap means a table message was lost, so ask for a
+    // snapshot once and ignore the incremental ones until it arrives: they
+    // would be applied on top of a state we no longer have.
+    const checkSequence = (message: SequencedServerMessage): boolean => {
+      if (message.seq === undefined) return true
+      if (message.seq <= lastSeqRef.current) return false
+
+      const isSnapshot = message.type === 'gameState' || message.type === 'lobbyState'
+      if (message.seq > lastSeqRef.current + 1 && !isSnapshot && !resyncPendingRef.current) {
+        resyncPendingRef.current = true
+        const resync: ClientMessage = { type: 'resync' }
+        ws.send(JSON.stringify(resync))
+      }
+      lastSeqRef.current = message.seq
+
+      if (isSnapshot) {
+        resyncPendingRef.current = false
+        return true
+      }
+      return !resyncPendingRef.current
+    }
+
+    const handlePong = (serverTime: number, clientTime: number) => {
+      const rttMs = Date.now() - clientTime
+      // The server read its clock roughly half a round trip after we sent
+      const sample = { rttMs, offsetMs: serverTime - (clientTime + rttMs / 2) }
+      const samples = [...clockSamplesRef.current, sample].slice(-CLOCK_SYNC_SAMPLES)
+      clockSamplesRef.current = samples
+
+      const best = samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a))
+      optionsRef.current.onClockSync?.(best.offsetMs, best.rttMs)
+
+      if (syncPingsLeftRef.current > 0) sendPing(serverTime)
+    }
+
     ws.onopen = () => {
       setIsConnected(true)
+      lastSeqRef.current = 0
+      resyncPendingRef.current = false
+      clockSamplesRef.current = []
+      startClockSync()
+      syncIntervalRef.current = setInterval(startClockSync, CLOCK_SYNC_INTERVAL_MS)
       optionsRef.current.onConnect?.()
     }
 
     ws.onclose = () => {
       setIsConnected(false)
       wsRef.current = null
+      if (syncIntervalRef.current) {
+        clearInterval(syncIntervalRef.current)
+        syncIntervalRef.current = null
+      }
       optionsRef.current.onDisconnect?.()
+      if (protocolMismatchRef.current) return
 
       // Attempt to reconnect after 2 seconds
       reconnectTimeoutRef.current = setTimeout(() => {
@@ -52,8 +139,22 @@ export function useWebSocket(tableId: string | null, options: UseWebSocketOption
     }
 
     ws.onmessage = (event) => {
+      // Anything still arriving on a socket we've replaced is stale
+      if (wsRef.current !== ws) return
+
       try {
-        const message = JSON.parse(event.data) as ServerMessage
+        const message = JSON.parse(event.data) as SequencedServerMessage
+        if (!checkSequence(message)) return
+
+        if (message.type === 'pong' && message.clientTime !== undefined) {
+          handlePong(message.serverTime, message.clientTime)
+        } else if (message.type === 'error' && message.code === 'PROTOCOL_MISMATCH') {
+          giveUp(message.message)
+          return
+        } else if (message.type === 'welcome' && (message.protocolVersion ?? 1) < MIN_PROTOCOL_VERSION) {
+          giveUp('The game server is being updated. Reload in a minute to keep playing.')
+          return
+        }
         optionsRef.current.onMessage?.(message)
       } catch (err) {
         console.error('Failed to parse WebSocket message:', err)
@@ -72,9 +173,13 @@ export function useWebSocket(tableId: string | null, options: UseWebSocketOption
     }
   }, [])
 
+  // Every join says which version of the protocol this page speaks
   const sendMessage = useCallback((message: ClientMessage) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message))
+      const stamped: ClientMessage = message.type === 'join'
+        ? { ...message, protocolVersion: PROTOCOL_VERSION, features: [...PROTOCOL_FEATURES] }
+        : message
+      wsRef.current.send(JSON.stringify(stamped))
     }
   }, [])
 
@@ -87,6 +192,7 @@ export function useWebSocket(tableId: string | null, options: UseWebSocketOption
 
   return {
     isConnected,
+    protocolMismatch,
     sendMessage,
     disconnect,
   }
@@ -0,0 +1,4 @@
+// Points are whole numbers unless a tied round was split
+export function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(2).replace(/0$/, '')
+}
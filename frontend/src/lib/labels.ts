@@ -0,0 +1,74 @@
+import type {
+  PaymentRule,
+  PointSchedule,
+  DisclosureMode,
+  EliminationMode,
+  EarlyFinishMode,
+  TieBreak,
+  BotStrategy,
+  GameEndReason,
+  Emote,
+} from '@shared/types'
+
+// Human-readable names for table settings
+export const PAYMENT_RULE_LABELS: Record<PaymentRule, string> = {
+  all_pay: 'Everyone pays their bid',
+  winner_pays: 'Only the winner pays',
+  second_price: 'Winner pays 2nd-highest bid',
+  losers_pay_half: 'Losers pay half',
+}
+
+export const POINT_SCHEDULE_LABELS: Record<PointSchedule, string> = {
+  flat: 'Every round worth 1',
+  final_round: 'Final round bonus',
+  jackpot: 'Secret jackpot round',
+}
+
+export const DISCLOSURE_LABELS: Record<DisclosureMode, string> = {
+  full: 'Everything visible',
+  hide_banks: 'Hide time banks',
+  hide_holding: 'Hide who is holding',
+  sealed: 'Sealed until game end',
+}
+
+export const ELIMINATION_LABELS: Record<EliminationMode, string> = {
+  sit_out: 'Sit out, keep points',
+  eliminate: "Eliminated, can't win",
+  last_standing: 'Last player standing wins',
+}
+
+export const EARLY_FINISH_LABELS: Record<EarlyFinishMode, string> = {
+  off: 'Always play every round',
+  offer: 'Host may end it',
+  auto: 'End automatically',
+}
+
+export const TIE_BREAK_LABELS: Record<TieBreak, string> = {
+  no_winner: 'Nobody scores',
+  all_score: 'Everyone tied scores',
+  split: 'Tied players split the points',
+  less_time: 'Least time left wins',
+}
+
+export const BOT_STRATEGY_LABELS: Record<BotStrategy, string> = {
+  fixed_fraction: 'Steady',
+  bank_aware: 'Bank watcher',
+  bluffer: 'Bluffer',
+  grace_dropper: 'Front-runner',
+}
+
+export const EMOTE_LABELS: Record<Emote, { emoji: string; name: string }> = {
+  thumbs_up: { emoji: '👍', name: 'Thumbs up' },
+  laugh: { emoji: '😂', name: 'Laugh' },
+  wow: { emoji: '😮', name: 'Wow' },
+  sweat: { emoji: '😅', name: 'Phew' },
+  fire: { emoji: '🔥', name: 'Fire' },
+  clap: { emoji: '👏', name: 'Applause' },
+}
+
+export const GAME_END_REASON_LABELS: Record<GameEndReason, string> = {
+  completed: 'All rounds played',
+  decided: 'Ended early - the leader could no longer be caught',
+  last_standing: 'Only one player had time left',
+  no_time_left: 'Every time bank ran out',
+}
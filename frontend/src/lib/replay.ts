@@ -0,0 +1,344 @@
+import type {
+  Player,
+  PlayerBidStatus,
+  RoundPhase,
+  RoundResult,
+  ServerMessage,
+  TableEvent,
+  TableSettings,
+  TableStatus,
+} from '@shared/types'
+
+// Rebuilds what the table looked like at any point from its event log. The
+// log keeps broadcasts from before redaction, so a replay shows everything.
+
+export interface ReplayFrame {
+  settings: TableSettings | null
+  status: TableStatus
+  round: number
+  totalRounds: number
+  roundPoints: number
+  phase: RoundPhase
+  isPaused: boolean
+  players: Player[]
+  playerBids: PlayerBidStatus[]
+  playersHolding: Set<string>
+  playersBankEmpty: Set<string>
+  lastResult: RoundResult | null
+}
+
+// One game within the log; a table's log runs on across rematches
+export interface ReplayGame {
+  startIndex: number            // The gameStarting broadcast
+  endIndex: number              // The gameEnd broadcast, or the last event so far
+  startAt: number
+  endAt: number
+}
+
+export interface HoldBar {
+  playerId: string
+  start: number                 // Server time the hold began, latency credit applied
+  end: number | null            // Server time it ended; null if still held at the end of the log
+  counted: boolean              // Ended during bidding, so it became a bid
+}
+
+export interface RoundTimeline {
+  round: number
+  points: number
+  startAt: number               // roundStart
+  graceAt: number | null        // Everyone held; grace period began
+  biddingAt: number | null
+  endAt: number | null          // roundEnd
+  bars: HoldBar[]
+  result: RoundResult | null
+}
+
+export function splitGames(events: TableEvent[]): ReplayGame[] {
+  const games: ReplayGame[] = []
+  let current: ReplayGame | null = null
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i]
+    if (event.kind !== 'message') continue
+    if (event.message.type === 'gameStarting') {
+      current = { startIndex: i, endIndex: i, startAt: event.at, endAt: event.at }
+      games.push(current)
+    } else if (event.message.type === 'gameEnd' && current) {
+      current.endIndex = i
+      current.endAt = event.at
+      current = null
+    }
+  }
+
+  // A game still in progress runs to the end of the log
+  if (current) {
+    current.endIndex = events.length - 1
+    current.endAt = events[events.length - 1].at
+  }
+  return games
+}
+
+// Everyone seen at the table up to the end of a game, including players
+// who left part way through
+export function listPlayers(events: TableEvent[], game: ReplayGame): Player[] {
+  const seen = new Map<string, Player>()
+  for (let i = 0; i <= game.endIndex; i++) {
+    const event = events[i]
+    if (event.kind !== 'message') continue
+    const msg = event.message
+    if (msg.type === 'lobbyState') msg.players.forEach(p => seen.set(p.id, p))
+    else if (msg.type === 'gameState') msg.state.players.forEach(p => seen.set(p.id, p))
+    else if (msg.type === 'playerJoined') seen.set(msg.player.id, msg.player)
+  }
+  return [...seen.values()]
+}
+
+// Index of the last event at or before the given server time
+export function eventIndexAt(events: TableEvent[], at: number): number {
+  let low = 0
+  let high = events.length - 1
+  let found = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (events[mid].at <= at) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
+}
+
+// The table as it stood after events[0..index]
+export function buildFrame(events: TableEvent[], index: number): ReplayFrame {
+  const frame: ReplayFrame = {
+    settings: null,
+    status: 'lobby',
+    round: 0,
+    totalRounds: 0,
+    roundPoints: 1,
+    phase: 'pre_round',
+    isPaused: false,
+    players: [],
+    playerBids: [],
+    playersHolding: new Set(),
+    playersBankEmpty: new Set(),
+    lastResult: null,
+  }
+
+  for (let i = 0; i <= index && i < events.length; i++) {
+    const event = events[i]
+    if (event.kind === 'phase') {
+      frame.status = event.status
+      frame.round = event.round
+      frame.phase = event.phase
+    } else if (event.kind === 'message') {
+      applyMessage(frame, event.message)
+    }
+  }
+  return frame
+}
+
+function updatePlayer(frame: ReplayFrame, playerId: string, update: (p: Player) => Player): void {
+  frame.players = frame.players.map(p => (p.id === playerId ? update(p) : p))
+}
+
+function updateBid(frame: ReplayFrame, playerId: string, update: Partial<PlayerBidStatus>): void {
+  const existing = frame.playerBids.find(b => b.playerId === playerId)
+  const base: PlayerBidStatus = existing ?? {
+    playerId,
+    isBidding: false,
+    currentBidMs: 0,
+    hasReleasedThisRound: false,
+    bankExhausted: false,
+  }
+  frame.playerBids = [...frame.playerBids.filter(b => b.playerId !== playerId), { ...base, ...update }]
+}
+
+function applyMessage(frame: ReplayFrame, msg: ServerMessage): void {
+  switch (msg.type) {
+    case 'lobbyState':
+      frame.settings = msg.settings
+      frame.players = msg.players
+      frame.status = 'lobby'
+      break
+    case 'playerJoined':
+      frame.players = [...frame.players.filter(p => p.id !== msg.player.id), msg.player]
+      break
+    case 'playerLeft':
+      frame.players = frame.players.filter(p => p.id !== msg.playerId)
+      break
+    case 'hostChanged':
+      frame.players = frame.players.map(p => ({ ...p, isHost: p.id === msg.hostId }))
+      break
+    case 'playerDisconnected':
+      updatePlayer(frame, msg.playerId, p => ({ ...p, isConnected: false }))
+      break
+    case 'playerReconnected':
+      updatePlayer(frame, msg.playerId, p => ({ ...p, isConnected: true }))
+      break
+    case 'gameState':
+      frame.status = msg.state.status
+      frame.round = msg.state.currentRound
+      frame.totalRounds = msg.state.totalRounds
+      frame.roundPoints = msg.state.roundPoints
+      frame.phase = msg.state.roundPhase
+      frame.players = msg.state.players
+      frame.playerBids = msg.state.playerBids
+      frame.playersHolding = new Set(msg.state.playerBids.filter(b => b.isBidding).map(b => b.playerId))
+      break
+    case 'roundStart':
+      frame.round = msg.round
+      frame.totalRounds = msg.totalRounds
+      frame.roundPoints = msg.points
+      frame.phase = 'pre_round'
+      frame.playerBids = []
+      frame.playersHolding = new Set()
+      frame.playersBankEmpty = new Set()
+      frame.lastResult = null
+      break
+    case 'allPlayersHolding':
+      frame.phase = 'grace_period'
+      break
+    case 'graceExpired':
+      frame.phase = 'bidding'
+      break
+    case 'playerHoldingUpdate': {
+      const holding = new Set(frame.playersHolding)
+      if (msg.isHolding) holding.add(msg.playerId)
+      else holding.delete(msg.playerId)
+      frame.playersHolding = holding
+      updateBid(frame, msg.playerId, { isBidding: msg.isHolding })
+      break
+    }
+    case 'bidUpdate': {
+      const holding = new Set(frame.playersHolding)
+      holding.delete(msg.playerId)
+      frame.playersHolding = holding
+      if (msg.bankExhausted) {
+        frame.playersBankEmpty = new Set(frame.playersBankEmpty).add(msg.playerId)
+      }
+      updateBid(frame, msg.playerId, {
+        isBidding: false,
+        currentBidMs: msg.currentBidMs,
+        hasReleasedThisRound: true,
+        bankExhausted: !!msg.bankExhausted,
+      })
+      break
+    }
+    case 'roundEnd': {
+      const { results } = msg
+      frame.phase = 'resolution'
+      frame.lastResult = results
+      for (const r of results.playerResults) {
+        updatePlayer(frame, r.playerId, p => ({
+          ...p,
+          timeRemainingMs: p.timeRemainingMs === null ? null : Math.max(0, p.timeRemainingMs - r.chargedMs),
+        }))
+      }
+      for (const award of results.awards) {
+        updatePlayer(frame, award.playerId, p => ({
+          ...p,
+          victoryPoints: p.victoryPoints + award.points,
+          lastWinRound: results.roundNumber,
+        }))
+      }
+      break
+    }
+    case 'playerEliminated':
+      updatePlayer(frame, msg.playerId, p => ({ ...p, isEliminated: true }))
+      break
+    case 'gamePaused':
+      frame.isPaused = true
+      break
+    case 'gameResumed':
+      frame.isPaused = false
+      break
+    case 'gameEnd':
+      frame.status = 'finished'
+      frame.isPaused = false
+      for (const s of msg.standings) {
+        updatePlayer(frame, s.playerId, p => ({
+          ...p,
+          victoryPoints: s.victoryPoints,
+          timeRemainingMs: s.timeRemainingMs,
+          isEliminated: s.isEliminated,
+        }))
+      }
+      break
+    case 'rematchStarting':
+      frame.status = 'lobby'
+      break
+  }
+}
+
+// Every hold and release in one game, grouped by round
+export function buildRoundTimelines(events: TableEvent[], game: ReplayGame): RoundTimeline[] {
+  const rounds: RoundTimeline[] = []
+  let round: RoundTimeline | null = null
+  // Bids not yet matched to the broadcast they caused, by player
+  const pendingBids = new Map<string, { action: 'bidStart' | 'bidEnd'; moment: number }>()
+
+  const momentOf = (playerId: string, action: 'bidStart' | 'bidEnd', at: number) => {
+    const bid = pendingBids.get(playerId)
+    pendingBids.delete(playerId)
+    return bid?.action === action ? bid.moment : at
+  }
+
+  const closeBar = (playerId: string, end: number, counted: boolean) => {
+    const bar = round?.bars.find(b => b.playerId === playerId && b.end === null)
+    if (bar) {
+      bar.end = end
+      bar.counted = counted
+    }
+  }
+
+  for (let i = game.startIndex; i <= game.endIndex; i++) {
+    const event = events[i]
+    if (event.kind === 'bid') {
+      // The engine moved the moment back by the credited latency
+      pendingBids.set(event.playerId, { action: event.action, moment: event.at - event.latencyMs })
+      continue
+    }
+    if (event.kind !== 'message') continue
+
+    const msg = event.message
+    if (msg.type === 'roundStart') {
+      round = {
+        round: msg.round,
+        points: msg.points,
+        startAt: event.at,
+        graceAt: null,
+        biddingAt: null,
+        endAt: null,
+        bars: [],
+        result: null,
+      }
+      rounds.push(round)
+    } else if (!round) {
+      continue
+    } else if (msg.type === 'allPlayersHolding') {
+      round.graceAt = event.at
+    } else if (msg.type === 'graceExpired') {
+      round.biddingAt = event.at
+    } else if (msg.type === 'playerHoldingUpdate') {
+      if (msg.isHolding) {
+        round.bars.push({
+          playerId: msg.playerId,
+          start: momentOf(msg.playerId, 'bidStart', event.at),
+          end: null,
+          counted: false,
+        })
+      } else {
+        closeBar(msg.playerId, momentOf(msg.playerId, 'bidEnd', event.at), false)
+      }
+    } else if (msg.type === 'bidUpdate') {
+      closeBar(msg.playerId, momentOf(msg.playerId, 'bidEnd', event.at), msg.currentBidMs > 0)
+    } else if (msg.type === 'roundEnd') {
+      round.endAt = event.at
+      round.result = msg.results
+    }
+  }
+  return rounds
+}
@@ -0,0 +1,131 @@
+// Strategies for seats played by the server.
+//
+// A bot settles its whole round when the round starts, from what a player in
+// its seat could see (`planBotRound`), and `nextBotAction` turns that plan into
+// the next press or release and the time it is due. Like the engine this never
+// touches the clock or the network; the adapter wakes up at the returned times
+// and feeds the actions back in as ordinary `bidStart`/`bidEnd` events.
+
+import type { BotStrategy, GameState, Player } from './types';
+import type { EngineState } from './engine';
+import { redactMessage, toGameState } from './engine';
+
+export interface BotPlan {
+  round: number;
+  pickUpAfterMs: number;       // From the start of waiting_for_holds
+  releaseAtMs: number;         // From the end of the grace period; negative drops out during it
+}
+
+export interface BotAction {
+  playerId: string;
+  type: 'bidStart' | 'bidEnd';
+  at: number;                  // Server time it is due
+}
+
+const MIN_PICK_UP_MS = 400;    // Bots take a moment to reach for the button, like people
+const MAX_PICK_UP_MS = 1500;
+const FIXED_FRACTION = 0.12;   // Share of the bank per point on offer
+const OUTBID_MARGIN = 1.15;    // How far bank_aware goes over its estimate of the best rival
+const BLUFF_CHANCE = 0.3;      // How often the bluffer drops out during the grace period
+const CATCH_UP_JITTER = 0.25;  // How far grace_dropper strays either side of its even share when behind
+
+export function planBotRound(
+  state: EngineState,
+  botId: string,
+  strategy: BotStrategy,
+  random: () => number
+): BotPlan {
+  const view = botView(state, botId);
+  const me = view.players.find(p => p.id === botId);
+  const bank = me?.timeRemainingMs ?? 0;
+  const opponents = view.players.filter(p => p.id !== botId && p.isConnected && !p.isEliminated);
+  const roundsLeft = Math.max(1, view.totalRounds - view.currentRound + 1);
+  const dropOut = -state.settings.gracePeriodMs / 2;
+
+  let releaseAtMs: number;
+  switch (strategy) {
+    case 'fixed_fraction':
+      releaseAtMs = fixedFraction(bank, view.roundPoints);
+      break;
+    case 'bank_aware':
+      releaseAtMs = outbidRichest(bank, opponents, roundsLeft, view.roundPoints) ?? dropOut;
+      break;
+    case 'bluffer':
+      releaseAtMs = random() < BLUFF_CHANCE
+        ? -state.settings.gracePeriodMs * (0.1 + random() * 0.8)
+        : random() * 2 * (bank / roundsLeft) * view.roundPoints;
+      break;
+    case 'grace_dropper':
+      releaseAtMs = isLeading(me, opponents) ? dropOut : catchUp(bank, roundsLeft, view.roundPoints, random);
+      break;
+  }
+
+  return {
+    round: state.currentRound,
+    pickUpAfterMs: MIN_PICK_UP_MS + random() * (MAX_PICK_UP_MS - MIN_PICK_UP_MS),
+    releaseAtMs: Math.round(releaseAtMs),
+  };
+}
+
+// The press or release the bot should make next, if any. Once the grace period
+// has ended a planned drop-out becomes an immediate release.
+export function nextBotAction(state: EngineState, botId: string, plan: BotPlan): BotAction | null {
+  const bot = state.players.find(p => p.id === botId);
+  if (!bot || state.status !== 'playing' || state.pausedAt !== null) return null;
+  if (plan.round !== state.currentRound || bot.eliminatedRound !== null) return null;
+
+  const isHolding = bot.bidStartTime !== null;
+  switch (state.roundPhase) {
+    case 'waiting_for_holds':
+      if (isHolding || bot.hasReleasedThisRound) return null;
+      return { playerId: botId, type: 'bidStart', at: state.phaseStartTime + plan.pickUpAfterMs };
+    case 'grace_period':
+      if (!isHolding || plan.releaseAtMs >= 0 || state.phaseEndTime === null) return null;
+      return { playerId: botId, type: 'bidEnd', at: state.phaseEndTime + plan.releaseAtMs };
+    case 'bidding':
+      if (!isHolding || state.graceEndTime === null) return null;
+      return { playerId: botId, type: 'bidEnd', at: state.graceEndTime + Math.max(0, plan.releaseAtMs) };
+    default:
+      return null;
+  }
+}
+
+// Bots see the table exactly as a player in their seat would
+function botView(state: EngineState, botId: string): GameState {
+  const message = redactMessage({ type: 'gameState', state: toGameState(state) }, state, botId, state.roundPhase);
+  return message?.type === 'gameState' ? message.state : toGameState(state);
+}
+
+function fixedFraction(bank: number, roundPoints: number): number {
+  return Math.min(bank, bank * FIXED_FRACTION * roundPoints);
+}
+
+// Behind on points there's nothing to protect, so spend an even share of the
+// bank on every round left, give or take a little so it can't be read off
+function catchUp(bank: number, roundsLeft: number, roundPoints: number, random: () => number): number {
+  const jitter = 1 + (random() * 2 - 1) * CATCH_UP_JITTER;
+  return Math.min(bank, (bank / roundsLeft) * roundPoints * jitter);
+}
+
+// Just over what the richest rival can spend per round, or null when that
+// can't be beaten and the time is better saved. Falls back to a fixed
+// fraction when banks are hidden.
+function outbidRichest(bank: number, opponents: Player[], roundsLeft: number, roundPoints: number): number | null {
+  const banks: number[] = [];
+  for (const p of opponents) {
+    if (p.timeRemainingMs === null) return fixedFraction(bank, roundPoints);
+    banks.push(p.timeRemainingMs);
+  }
+  if (banks.length === 0) return fixedFraction(bank, roundPoints);
+
+  const richest = Math.max(...banks);
+  const target = roundsLeft === 1
+    ? richest + 1
+    : (richest / roundsLeft) * roundPoints * OUTBID_MARGIN;
+  return target < bank ? target : null;
+}
+
+function isLeading(me: Player | undefined, opponents: Player[]): boolean {
+  if (!me) return false;
+  return opponents.every(p => me.victoryPoints > p.victoryPoints);
+}
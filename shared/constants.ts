@@ -1,8 +1,41 @@
+import type {
+  PaymentRule,
+  PointSchedule,
+  DisclosureMode,
+  EliminationMode,
+  EarlyFinishMode,
+  TieBreak,
+  BotStrategy,
+  ProtocolFeature,
+  Emote,
+} from './types';
+
+// Protocol. Bump PROTOCOL_VERSION whenever a message changes in a way the
+// other side would misread. The server still serves the version before it,
+// so tabs opened before a deploy keep working until they reload.
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = PROTOCOL_VERSION - 1;
+export const PROTOCOL_FEATURES: readonly ProtocolFeature[] = ['spectators', 'bots', 'resync', 'chat'];
+// What a peer that doesn't list its features understands (version 1)
+export const V1_PROTOCOL_FEATURES: readonly ProtocolFeature[] = ['spectators', 'bots'];
+
 // Game defaults
 export const DEFAULT_STARTING_TIME_MS = 600000;  // 10 minutes
 export const DEFAULT_NUM_ROUNDS = 10;
 export const DEFAULT_MAX_PLAYERS = 8;
 export const DEFAULT_GRACE_PERIOD_MS = 5000;     // 5 seconds
+export const DEFAULT_PAYMENT_RULE: PaymentRule = 'all_pay';
+export const DEFAULT_POINT_SCHEDULE: PointSchedule = 'flat';
+export const DEFAULT_BONUS_ROUND_POINTS = 3;
+export const DEFAULT_DISCLOSURE: DisclosureMode = 'full';
+export const DEFAULT_SPECTATOR_DELAY_MS = 0;
+export const DEFAULT_ELIMINATION: EliminationMode = 'sit_out';
+export const DEFAULT_EARLY_FINISH: EarlyFinishMode = 'offer';
+export const DEFAULT_HOLD_TIMEOUT_MS = 30000;   // 30 seconds to pick up the button
+export const DEFAULT_MAX_BIDDING_MS = 0;        // No bidding limit
+export const DEFAULT_TIE_THRESHOLD_MS = 100;    // Within 100ms = tie
+export const DEFAULT_TIE_BREAK: TieBreak = 'no_winner';
+export const DEFAULT_CHAT_DURING_BIDDING = true;
 
 // Constraints
 export const MIN_STARTING_TIME_SECONDS = 60;     // 1 minute
@@ -13,6 +46,23 @@ export const MIN_PLAYERS = 2;
 export const MAX_PLAYERS = 20;
 export const MIN_GRACE_PERIOD_SECONDS = 3;
 export const MAX_GRACE_PERIOD_SECONDS = 10;
+export const PAYMENT_RULES: readonly PaymentRule[] = ['all_pay', 'winner_pays', 'second_price', 'losers_pay_half'];
+export const POINT_SCHEDULES: readonly PointSchedule[] = ['flat', 'final_round', 'jackpot'];
+export const MIN_BONUS_ROUND_POINTS = 2;
+export const MAX_BONUS_ROUND_POINTS = 10;
+export const MIN_SPECTATOR_DELAY_SECONDS = 0;
+export const MAX_SPECTATOR_DELAY_SECONDS = 60;
+export const MAX_SPECTATORS = 50;
+export const DISCLOSURE_MODES: readonly DisclosureMode[] = ['full', 'hide_banks', 'hide_holding', 'sealed'];
+export const ELIMINATION_MODES: readonly EliminationMode[] = ['sit_out', 'eliminate', 'last_standing'];
+export const EARLY_FINISH_MODES: readonly EarlyFinishMode[] = ['off', 'offer', 'auto'];
+export const MIN_HOLD_TIMEOUT_SECONDS = 10;     // 0 disables the timeout
+export const MAX_HOLD_TIMEOUT_SECONDS = 120;
+export const MAX_BIDDING_SECONDS = 3600;        // Lower bound is MIN_BIDDING_PHASE_MS; 0 disables
+export const MIN_TIE_THRESHOLD_MS = 0;          // Only identical bids tie
+export const MAX_TIE_THRESHOLD_MS = 1000;
+export const TIE_BREAKS: readonly TieBreak[] = ['no_winner', 'all_score', 'split', 'less_time'];
+export const BOT_STRATEGIES: readonly BotStrategy[] = ['fixed_fraction', 'bank_aware', 'bluffer', 'grace_dropper'];
 
 // Name constraints
 export const MIN_TABLE_NAME_LENGTH = 1;
@@ -21,18 +71,32 @@ export const MIN_PLAYER_NAME_LENGTH = 1;
 export const MAX_PLAYER_NAME_LENGTH = 20;
 export const MAX_PASSWORD_LENGTH = 50;
 
+// Chat
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+export const CHAT_HISTORY_SIZE = 50;             // Messages kept per table and sent to whoever joins
+export const EMOTES: readonly Emote[] = ['thumbs_up', 'laugh', 'wow', 'sweat', 'fire', 'clap'];
+
 // Timing
 export const PRE_ROUND_COUNTDOWN_MS = 3000;      // 3 seconds before round
 export const ROUND_RESULTS_DISPLAY_MS = 5000;   // 5 seconds to show results
-export const MIN_BIDDING_PHASE_MS = 10000;      // 10 seconds minimum bidding time
+export const MIN_BIDDING_PHASE_MS = 10000;      // Shortest bidding limit a table can set
 export const RECONNECT_WINDOW_MS = 30000;        // 30 seconds to reconnect
 export const MAX_LATENCY_COMPENSATION_MS = 200;  // Max latency adjustment
-
-// Tie threshold
-export const TIE_THRESHOLD_MS = 100;             // Within 100ms = tie
+export const CLOCK_SYNC_BURST = 5;               // Back-to-back pings per sync
+export const CLOCK_SYNC_INTERVAL_MS = 30000;     // How often clients re-sync
+export const CLOCK_SYNC_SAMPLES = 8;             // Recent samples kept per connection
+export const MAX_CLOCK_SYNC_RTT_MS = 5000;       // Slower samples are discarded
 
 // Rate limiting
-export const MAX_BUTTON_EVENTS_PER_SECOND = 10;
+export const MAX_BUTTON_EVENTS_PER_SECOND = 10;  // Per connection, across all message types
+export const RATE_LIMIT_STRIKES_BEFORE_DISCONNECT = 30; // Dropped messages before the socket is closed
+export const MAX_FAILED_PASSWORDS_PER_MINUTE = 5; // Per client address, across connections
+export const MAX_CHAT_MESSAGES_PER_MINUTE = 15;  // Per connection, emotes included
+
+// Event log
+export const EVENTS_PAGE_SIZE = 200;
+export const MAX_EVENTS_PAGE_SIZE = 1000;
+export const MAX_LOGGED_EVENTS = 50000;          // Per table; later events are dropped
 
 // Table ID
 export const TABLE_ID_LENGTH = 6;
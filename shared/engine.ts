@@ -0,0 +1,1308 @@
+// Pure game rules for a single table.
+//
+// The engine is a deterministic state machine: `applyEvent(state, event, now)`
+// never touches the network, storage or the clock. It returns the next state,
+// the messages to broadcast to the table and the times at which it wants to be
+// woken up with a `tick` event. Adapters (the GameRoom Durable Object, bots,
+// local play) own connections, persistence and scheduling.
+
+import type {
+  TableSettings,
+  TableStatus,
+  RoundPhase,
+  Player,
+  GameState,
+  RoundResult,
+  PlayerRoundResult,
+  BidOutcome,
+  PaymentRule,
+  PointSchedule,
+  DisclosureMode,
+  EliminationMode,
+  TieBreak,
+  BotStrategy,
+  GameEndReason,
+  FinalStanding,
+  ServerMessage,
+  ErrorCode,
+} from './types';
+import {
+  MIN_PLAYERS,
+  PRE_ROUND_COUNTDOWN_MS,
+  ROUND_RESULTS_DISPLAY_MS,
+} from './constants';
+
+// ===== State =====
+
+export interface EnginePlayer {
+  id: string;
+  displayName: string;
+  isHost: boolean;
+  isReady: boolean;
+  isConnected: boolean;
+  timeRemainingMs: number;
+  victoryPoints: number;
+  seriesPoints: number;         // Banked from earlier games in a rematch series
+  lastWinRound: number | null;
+  eliminatedRound: number | null; // Round in which the bank ran out
+  bidStartTime: number | null;
+  bidEndTime: number | null;
+  startCompensationMs: number;  // Latency credited to this round's press, kept for audits
+  endCompensationMs: number;    // Latency credited to this round's release
+  holdStartTime: number | null; // This round's hold, kept after release for the results
+  releaseTime: number | null;
+  currentBidMs: number;
+  hasReleasedThisRound: boolean;
+  bidOutcome: BidOutcome;       // How this round's bid ended, 'no_bid' until it does
+  botStrategy: BotStrategy | null; // Played by the server (see bots.ts) rather than a person
+}
+
+export interface EngineState {
+  settings: TableSettings;
+  status: TableStatus;
+  hostId: string | null;
+  currentRound: number;
+  roundPhase: RoundPhase;
+  phaseStartTime: number;
+  phaseEndTime: number | null;  // Scheduled end of the current phase, if timed
+  graceEndTime: number | null;  // When this round's grace period ended, once it has
+  pausedAt: number | null;      // Set while the host has the clock stopped
+  decidedInRound: number | null; // First round after which the leader couldn't be caught
+  roundPoints: number[];        // Points per round (index 0 = round 1); secret until each round starts
+  roundHistory: RoundResult[];
+  players: EnginePlayer[];      // Seat order, used wherever iteration order matters
+}
+
+// ===== Events =====
+
+export type EngineEvent =
+  | { type: 'join'; playerId: string; displayName: string }  // Adapter has checked the password and name
+  | { type: 'ready'; playerId: string; isReady: boolean }
+  | { type: 'leave'; playerId: string }
+  | { type: 'kick'; playerId: string; targetId: string }
+  | { type: 'addBot'; playerId: string; botId: string; displayName: string; strategy: BotStrategy }
+  | { type: 'removeBot'; playerId: string; targetId: string }
+  | { type: 'startGame'; playerId: string; seed: number }  // Seed drives any random setup
+  | { type: 'bidStart'; playerId: string; latencyMs: number }  // Measured one-way latency to credit
+  | { type: 'bidEnd'; playerId: string; latencyMs: number }
+  | { type: 'connection'; playerId: string; isConnected: boolean }
+  | { type: 'assignHost'; playerId: string }                 // Adapter-verified (host token, fallback)
+  | { type: 'transferHost'; playerId: string; targetId: string }
+  | { type: 'rematch'; playerId: string; keepSeriesScore: boolean }
+  | { type: 'pause'; playerId: string }
+  | { type: 'finishEarly'; playerId: string }
+  | { type: 'resume'; playerId: string }
+  | { type: 'tick' };  // A previously requested timer fired
+
+export interface EngineResult {
+  state: EngineState;
+  messages: ServerMessage[];  // Broadcast to everyone at the table, in order
+  timers: number[];           // Absolute times at which a `tick` is needed
+  error?: { code: ErrorCode; message: string };  // For the acting player only
+}
+
+// ===== Construction =====
+
+export function createEngineState(settings: TableSettings, now: number): EngineState {
+  return {
+    settings,
+    status: 'lobby',
+    hostId: null,
+    currentRound: 0,
+    roundPhase: 'pre_round',
+    phaseStartTime: now,
+    phaseEndTime: null,
+    graceEndTime: null,
+    pausedAt: null,
+    decidedInRound: null,
+    roundPoints: [],
+    roundHistory: [],
+    players: [],
+  };
+}
+
+export function createEnginePlayer(
+  id: string,
+  displayName: string,
+  settings: TableSettings,
+  botStrategy: BotStrategy | null = null
+): EnginePlayer {
+  return {
+    id,
+    displayName,
+    isHost: false,
+    isReady: botStrategy !== null,  // Bots are always ready
+    isConnected: true,
+    timeRemainingMs: settings.startingTimeMs,
+    victoryPoints: 0,
+    seriesPoints: 0,
+    lastWinRound: null,
+    eliminatedRound: null,
+    bidStartTime: null,
+    bidEndTime: null,
+    startCompensationMs: 0,
+    endCompensationMs: 0,
+    holdStartTime: null,
+    releaseTime: null,
+    currentBidMs: 0,
+    hasReleasedThisRound: false,
+    bidOutcome: 'no_bid',
+    botStrategy,
+  };
+}
+
+// ===== Transitions =====
+
+interface Context {
+  state: EngineState;
+  now: number;
+  messages: ServerMessage[];
+  error?: { code: ErrorCode; message: string };
+}
+
+export function applyEvent(state: EngineState, event: EngineEvent, now: number): EngineResult {
+  const ctx: Context = { state: structuredClone(state), now, messages: [] };
+
+  switch (event.type) {
+    case 'join':
+      takeSeat(ctx, createEnginePlayer(event.playerId, event.displayName, ctx.state.settings));
+      break;
+    case 'ready':
+      setReady(ctx, event.playerId, event.isReady);
+      break;
+    case 'leave':
+      leave(ctx, event.playerId);
+      break;
+    case 'kick':
+      kick(ctx, event.playerId, event.targetId);
+      break;
+    case 'addBot':
+      addBot(ctx, event.playerId, createEnginePlayer(event.botId, event.displayName, ctx.state.settings, event.strategy));
+      break;
+    case 'removeBot':
+      removeBot(ctx, event.playerId, event.targetId);
+      break;
+    case 'startGame':
+      startGame(ctx, event.playerId, event.seed);
+      break;
+    case 'bidStart':
+      bidStart(ctx, event.playerId, event.latencyMs);
+      break;
+    case 'bidEnd':
+      bidEnd(ctx, event.playerId, event.latencyMs);
+      break;
+    case 'connection':
+      connectionChanged(ctx, event.playerId, event.isConnected);
+      break;
+    case 'assignHost':
+      if (findPlayer(ctx.state, event.playerId)) {
+        setHost(ctx, event.playerId);
+      }
+      break;
+    case 'transferHost':
+      transferHost(ctx, event.playerId, event.targetId);
+      break;
+    case 'rematch':
+      rematch(ctx, event.playerId, event.keepSeriesScore);
+      break;
+    case 'pause':
+      pause(ctx, event.playerId);
+      break;
+    case 'finishEarly':
+      finishEarly(ctx, event.playerId);
+      break;
+    case 'resume':
+      if (ctx.state.hostId !== event.playerId) {
+        fail(ctx, 'NOT_HOST', 'Only the host can resume the game');
+      } else {
+        resume(ctx);
+      }
+      break;
+    case 'tick':
+      tick(ctx);
+      break;
+  }
+
+  return {
+    state: ctx.state,
+    messages: ctx.messages,
+    timers: pendingTimers(ctx.state),
+    error: ctx.error,
+  };
+}
+
+// Times at which the engine must receive a `tick` to make progress
+export function pendingTimers(state: EngineState): number[] {
+  if (state.status !== 'playing' || state.pausedAt !== null) return [];
+
+  const timers: number[] = [];
+  if (state.phaseEndTime !== null) {
+    timers.push(state.phaseEndTime);
+  }
+  if (state.roundPhase === 'bidding') {
+    for (const player of state.players) {
+      if (player.bidStartTime !== null) {
+        timers.push(exhaustionDeadline(state, player));
+      }
+    }
+  }
+  return timers;
+}
+
+// When a holding player's bid reaches their whole time bank
+function exhaustionDeadline(state: EngineState, player: EnginePlayer): number {
+  const graceEndTime = state.phaseStartTime;
+  const effectiveStart = Math.max(player.bidStartTime ?? graceEndTime, graceEndTime);
+  return effectiveStart + player.timeRemainingMs;
+}
+
+function findPlayer(state: EngineState, playerId: string): EnginePlayer | undefined {
+  return state.players.find(p => p.id === playerId);
+}
+
+function fail(ctx: Context, code: ErrorCode, message: string): void {
+  ctx.error = { code, message };
+}
+
+function enterPhase(ctx: Context, phase: RoundPhase, durationMs: number | null): void {
+  ctx.state.roundPhase = phase;
+  ctx.state.phaseStartTime = ctx.now;
+  ctx.state.phaseEndTime = durationMs === null ? null : ctx.now + durationMs;
+}
+
+// hostId is the source of truth; isHost flags mirror it for PlayerInfo
+function setHost(ctx: Context, playerId: string): void {
+  const { state } = ctx;
+  if (state.hostId === playerId) return;
+
+  state.hostId = playerId;
+  for (const p of state.players) {
+    p.isHost = p.id === playerId;
+  }
+  ctx.messages.push({ type: 'hostChanged', hostId: playerId });
+}
+
+function transferHost(ctx: Context, playerId: string, targetId: string): void {
+  const { state } = ctx;
+  if (state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can transfer host');
+    return;
+  }
+
+  const target = findPlayer(state, targetId);
+  if (!target || target.id === playerId || !target.isConnected || target.botStrategy !== null) {
+    fail(ctx, 'INVALID_ACTION', 'Cannot transfer host to that player');
+    return;
+  }
+
+  setHost(ctx, targetId);
+}
+
+// Seats are only given out in the lobby. The only way to lose one mid-game
+// is a kick, which releases the player's button first.
+function takeSeat(ctx: Context, player: EnginePlayer): void {
+  const { state } = ctx;
+  if (state.status !== 'lobby') {
+    fail(ctx, 'GAME_ALREADY_STARTED', 'Game has already started');
+    return;
+  }
+
+  if (state.players.length >= state.settings.maxPlayers) {
+    fail(ctx, 'TABLE_FULL', 'Table is full');
+    return;
+  }
+
+  if (findPlayer(state, player.id)) return;
+
+  state.players.push(player);
+  ctx.messages.push({ type: 'playerJoined', player: toPlayerInfo(player) });
+}
+
+function removeSeat(ctx: Context, playerId: string): void {
+  const { state } = ctx;
+  state.players = state.players.filter(p => p.id !== playerId);
+  if (state.hostId === playerId) {
+    state.hostId = null;
+  }
+  ctx.messages.push({ type: 'playerLeft', playerId });
+}
+
+function setReady(ctx: Context, playerId: string, isReady: boolean): void {
+  const { state } = ctx;
+  const player = findPlayer(state, playerId);
+  if (!player || state.status !== 'lobby') return;
+
+  player.isReady = isReady;
+  ctx.messages.push({ type: 'playerReady', playerId, isReady });
+}
+
+// Leaving the lobby gives up the seat; leaving a game only drops the
+// connection, so the results still have everyone in them
+function leave(ctx: Context, playerId: string): void {
+  const { state } = ctx;
+  if (!findPlayer(state, playerId)) return;
+
+  if (state.status === 'lobby') {
+    removeSeat(ctx, playerId);
+  } else {
+    connectionChanged(ctx, playerId, false);
+  }
+}
+
+function kick(ctx: Context, playerId: string, targetId: string): void {
+  const { state } = ctx;
+  if (state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can kick players');
+    return;
+  }
+
+  if (targetId === playerId) {
+    fail(ctx, 'INVALID_ACTION', 'Cannot kick yourself');
+    return;
+  }
+
+  if (!findPlayer(state, targetId)) return;
+
+  // Mid-game, let go of their button first so the round is never left
+  // waiting on someone who has no seat
+  connectionChanged(ctx, targetId, false);
+  removeSeat(ctx, targetId);
+  checkAllPlayersHolding(ctx);
+  checkRoundEnd(ctx);
+}
+
+// Bots take a seat like anyone else, so they count toward maxPlayers
+function addBot(ctx: Context, playerId: string, bot: EnginePlayer): void {
+  if (ctx.state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can add bots');
+    return;
+  }
+
+  takeSeat(ctx, bot);
+}
+
+function removeBot(ctx: Context, playerId: string, targetId: string): void {
+  const { state } = ctx;
+  if (state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can remove bots');
+    return;
+  }
+
+  if (state.status !== 'lobby') {
+    fail(ctx, 'GAME_ALREADY_STARTED', 'Bots can only be removed in the lobby');
+    return;
+  }
+
+  const bot = findPlayer(state, targetId);
+  if (!bot || bot.botStrategy === null) {
+    fail(ctx, 'INVALID_ACTION', 'That player is not a bot');
+    return;
+  }
+
+  removeSeat(ctx, targetId);
+}
+
+function startGame(ctx: Context, playerId: string, seed: number): void {
+  const { state } = ctx;
+  const player = findPlayer(state, playerId);
+  if (!player || state.status !== 'lobby') return;
+
+  if (state.hostId !== player.id) {
+    fail(ctx, 'NOT_HOST', 'Only the host can start the game');
+    return;
+  }
+
+  if (state.players.length < MIN_PLAYERS) {
+    fail(ctx, 'NOT_ENOUGH_PLAYERS', `Need at least ${MIN_PLAYERS} players`);
+    return;
+  }
+
+  if (!state.players.every(p => p.isReady)) {
+    fail(ctx, 'PLAYERS_NOT_READY', 'All players must be ready');
+    return;
+  }
+
+  state.status = 'playing';
+  state.currentRound = 0;
+  state.pausedAt = null;
+  state.roundPoints = buildRoundPoints(
+    state.settings.numRounds,
+    state.settings.pointSchedule,
+    state.settings.bonusRoundPoints,
+    seed
+  );
+
+  ctx.messages.push({ type: 'gameStarting', countdown: PRE_ROUND_COUNTDOWN_MS / 1000 });
+
+  startNextRound(ctx);
+}
+
+// Back to the lobby with the same seats; tokens and host live outside the reset
+function rematch(ctx: Context, playerId: string, keepSeriesScore: boolean): void {
+  const { state } = ctx;
+  if (state.status !== 'finished') {
+    fail(ctx, 'INVALID_ACTION', 'The game has not finished');
+    return;
+  }
+
+  if (state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can start a rematch');
+    return;
+  }
+
+  state.status = 'lobby';
+  state.currentRound = 0;
+  state.pausedAt = null;
+  state.decidedInRound = null;
+  state.roundPoints = [];
+  state.roundHistory = [];
+  enterPhase(ctx, 'pre_round', null);
+
+  for (const player of state.players) {
+    player.seriesPoints = keepSeriesScore ? player.seriesPoints + player.victoryPoints : 0;
+    player.victoryPoints = 0;
+    player.timeRemainingMs = state.settings.startingTimeMs;
+    player.lastWinRound = null;
+    player.eliminatedRound = null;
+    player.isReady = player.botStrategy !== null;
+    player.bidStartTime = null;
+    player.bidEndTime = null;
+    player.startCompensationMs = 0;
+    player.endCompensationMs = 0;
+    player.holdStartTime = null;
+    player.releaseTime = null;
+    player.currentBidMs = 0;
+    player.hasReleasedThisRound = false;
+    player.bidOutcome = 'no_bid';
+  }
+
+  ctx.messages.push({ type: 'rematchStarting', keepSeriesScore });
+}
+
+function finishEarly(ctx: Context, playerId: string): void {
+  const { state } = ctx;
+  if (state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can end the game');
+    return;
+  }
+
+  if (state.status !== 'playing' || state.decidedInRound === null) {
+    fail(ctx, 'INVALID_ACTION', 'The game is not decided yet');
+    return;
+  }
+
+  if (state.pausedAt !== null) {
+    fail(ctx, 'INVALID_ACTION', 'Resume the game before ending it');
+    return;
+  }
+
+  endGame(ctx, 'decided');
+}
+
+// Pausing while bids are running would let holders think for free
+const PAUSABLE_PHASES: RoundPhase[] = ['pre_round', 'waiting_for_holds', 'resolution'];
+
+function pause(ctx: Context, playerId: string): void {
+  const { state } = ctx;
+  if (state.hostId !== playerId) {
+    fail(ctx, 'NOT_HOST', 'Only the host can pause the game');
+    return;
+  }
+
+  if (state.status !== 'playing' || state.pausedAt !== null) return;
+
+  if (!PAUSABLE_PHASES.includes(state.roundPhase)) {
+    fail(ctx, 'INVALID_ACTION', 'Cannot pause while bids are running');
+    return;
+  }
+
+  state.pausedAt = ctx.now;
+  ctx.messages.push({ type: 'gamePaused', pausedAt: ctx.now });
+}
+
+// Shift every running clock forward by the time spent paused
+function resume(ctx: Context): void {
+  const { state } = ctx;
+  if (state.pausedAt === null) return;
+
+  const pausedMs = ctx.now - state.pausedAt;
+  state.pausedAt = null;
+  state.phaseStartTime += pausedMs;
+  if (state.phaseEndTime !== null) {
+    state.phaseEndTime += pausedMs;
+  }
+  for (const player of state.players) {
+    if (player.bidStartTime !== null) {
+      player.bidStartTime += pausedMs;
+    }
+  }
+
+  ctx.messages.push({ type: 'gameResumed', phaseEndTime: state.phaseEndTime });
+
+  // Holds may have completed while the clock was stopped
+  checkAllPlayersHolding(ctx);
+}
+
+function bidStart(ctx: Context, playerId: string, latencyMs: number): void {
+  const { state } = ctx;
+  const player = findPlayer(state, playerId);
+  if (!player || state.status !== 'playing') return;
+
+  if (player.bidStartTime !== null) return; // Already holding
+  if (player.hasReleasedThisRound) return; // Already released this round
+  if (player.eliminatedRound !== null) return; // Nothing left to bid
+
+  const phase = state.roundPhase;
+
+  // Can only start holding during waiting_for_holds or grace_period
+  if (phase !== 'waiting_for_holds' && phase !== 'grace_period') return;
+
+  player.bidStartTime = ctx.now - latencyMs;
+  player.holdStartTime = player.bidStartTime;
+  player.startCompensationMs = latencyMs;
+
+  ctx.messages.push({
+    type: 'playerHoldingUpdate',
+    playerId: player.id,
+    isHolding: true,
+  });
+
+  // Check if all players are now holding (only during waiting phase)
+  if (phase === 'waiting_for_holds') {
+    checkAllPlayersHolding(ctx);
+  }
+}
+
+function bidEnd(ctx: Context, playerId: string, latencyMs: number): void {
+  const { state } = ctx;
+  const player = findPlayer(state, playerId);
+  if (!player || player.bidStartTime === null) return; // Not holding
+
+  player.bidEndTime = ctx.now - latencyMs;
+  player.endCompensationMs = latencyMs;
+
+  const phase = state.roundPhase;
+
+  if (phase === 'waiting_for_holds') {
+    // Just stopped holding before grace period started
+    dropHold(ctx, player);
+  } else if (phase === 'grace_period') {
+    // Released during grace period - opting out (no bid)
+    optOut(ctx, player, 'no_bid');
+  } else if (phase === 'bidding') {
+    // Released during bidding - lock in their bid
+    lockInBid(ctx, player, player.bidEndTime, 'released');
+
+    // Check if round should end (all players released)
+    checkRoundEnd(ctx);
+  }
+}
+
+// Disconnect policy: a player who drops while holding is released at the
+// moment they dropped, exactly as if they had let go of the button
+function connectionChanged(ctx: Context, playerId: string, isConnected: boolean): void {
+  const { state } = ctx;
+  const player = findPlayer(state, playerId);
+  if (!player) return;
+
+  player.isConnected = isConnected;
+  if (state.status !== 'playing') return;
+
+  // Nobody else can resume, so don't leave the table frozen
+  if (!isConnected && state.pausedAt !== null && state.hostId === player.id) {
+    resume(ctx);
+  }
+
+  if (!isConnected && player.bidStartTime !== null) {
+    if (state.roundPhase === 'waiting_for_holds') {
+      dropHold(ctx, player);
+    } else if (state.roundPhase === 'grace_period') {
+      optOut(ctx, player, 'disconnected');
+    } else if (state.roundPhase === 'bidding') {
+      lockInBid(ctx, player, ctx.now, 'disconnected');
+    }
+  }
+
+  // The set of players we wait on has changed either way
+  checkAllPlayersHolding(ctx);
+  checkRoundEnd(ctx);
+}
+
+function dropHold(ctx: Context, player: EnginePlayer): void {
+  player.bidStartTime = null;
+  player.bidEndTime = null;
+  player.holdStartTime = null;
+
+  ctx.messages.push({
+    type: 'playerHoldingUpdate',
+    playerId: player.id,
+    isHolding: false,
+  });
+}
+
+function optOut(ctx: Context, player: EnginePlayer, outcome: BidOutcome): void {
+  if (player.bidStartTime !== null) {
+    player.releaseTime = player.bidEndTime ?? ctx.now;
+  }
+  player.currentBidMs = 0;
+  player.hasReleasedThisRound = true;
+  player.bidOutcome = outcome;
+  player.bidStartTime = null;
+  player.bidEndTime = null;
+
+  ctx.messages.push({
+    type: 'bidUpdate',
+    playerId: player.id,
+    isBidding: false,
+    currentBidMs: 0,
+    timedOut: outcome === 'timed_out',
+  });
+}
+
+// Bid time = time held after grace period ended, capped at the player's bank
+function lockInBid(
+  ctx: Context,
+  player: EnginePlayer,
+  endTime: number,
+  outcome: 'released' | 'disconnected' | 'timed_out'
+): void {
+  const { state } = ctx;
+  const graceEndTime = state.phaseStartTime;
+  const effectiveStart = Math.max(player.bidStartTime ?? graceEndTime, graceEndTime);
+  const heldMs = Math.max(0, endTime - effectiveStart);
+  const bankExhausted = heldMs >= player.timeRemainingMs;
+
+  player.currentBidMs = Math.min(heldMs, player.timeRemainingMs);
+  player.bidOutcome = bankExhausted ? 'bank_exhausted' : outcome;
+  player.releaseTime = Math.min(endTime, effectiveStart + player.timeRemainingMs);
+  player.hasReleasedThisRound = true;
+  player.bidStartTime = null;
+  player.bidEndTime = null;
+
+  ctx.messages.push({
+    type: 'bidUpdate',
+    playerId: player.id,
+    isBidding: false,
+    currentBidMs: player.currentBidMs,
+    bankExhausted,
+    timedOut: player.bidOutcome === 'timed_out',
+  });
+}
+
+// Force-release everyone still holding whose bid has used up their bank
+function enforceTimeBanks(ctx: Context): void {
+  const { state } = ctx;
+  if (state.roundPhase !== 'bidding') return;
+
+  for (const player of state.players) {
+    if (player.bidStartTime === null) continue;
+
+    const deadline = exhaustionDeadline(state, player);
+    if (deadline <= ctx.now) {
+      lockInBid(ctx, player, deadline, 'released');
+    }
+  }
+
+  checkRoundEnd(ctx);
+}
+
+function tick(ctx: Context): void {
+  const { state } = ctx;
+  if (state.status !== 'playing' || state.pausedAt !== null) return;
+
+  if (state.roundPhase === 'bidding') {
+    enforceTimeBanks(ctx);
+    closeBidding(ctx);
+    return;
+  }
+
+  if (state.phaseEndTime === null || ctx.now < state.phaseEndTime) return;
+
+  if (state.roundPhase === 'pre_round') {
+    // Pre-round countdown finished, go to waiting for holds
+    enterPhase(ctx, 'waiting_for_holds', state.settings.holdTimeoutMs || null);
+    ctx.messages.push({ type: 'gameState', state: toGameState(state) });
+  } else if (state.roundPhase === 'waiting_for_holds') {
+    expireHoldWindow(ctx);
+  } else if (state.roundPhase === 'grace_period') {
+    // Grace period ended, start bidding phase - round ends when all release,
+    // run out of time or hit the bidding limit
+    enterPhase(ctx, 'bidding', state.settings.maxBiddingMs || null);
+    state.graceEndTime = ctx.now;
+    ctx.messages.push({ type: 'graceExpired', phaseEndTime: state.phaseEndTime });
+    enforceTimeBanks(ctx);
+  } else if (state.roundPhase === 'resolution') {
+    // Resolution phase finished, start next round or end game
+    const reason = state.currentRound >= state.settings.numRounds ? 'completed' : earlyEndReason(state);
+    if (reason) {
+      endGame(ctx, reason);
+    } else {
+      startNextRound(ctx);
+    }
+  }
+}
+
+function checkAllPlayersHolding(ctx: Context): void {
+  const { state } = ctx;
+  if (state.roundPhase !== 'waiting_for_holds' || state.pausedAt !== null) return;
+
+  // Bankrupt players can't bid, so nobody waits for them
+  const connectedPlayers = state.players.filter(p => p.isConnected);
+  const contenders = connectedPlayers.filter(p => p.eliminatedRound === null);
+  const allHolding = contenders.every(p => p.bidStartTime !== null);
+
+  if (allHolding && contenders.length > 0 && connectedPlayers.length >= MIN_PLAYERS) {
+    startGracePeriod(ctx);
+  }
+}
+
+function startGracePeriod(ctx: Context): void {
+  const { state } = ctx;
+  enterPhase(ctx, 'grace_period', state.settings.gracePeriodMs);
+
+  ctx.messages.push({
+    type: 'allPlayersHolding',
+    gracePeriodEndsAt: ctx.now + state.settings.gracePeriodMs,
+  });
+}
+
+// Hold timeout: whoever hasn't picked up the button sits the round out, and
+// the round goes ahead with the players already holding
+function expireHoldWindow(ctx: Context): void {
+  const { state } = ctx;
+
+  for (const player of state.players) {
+    if (player.bidStartTime !== null || player.hasReleasedThisRound) continue;
+    if (player.eliminatedRound !== null) continue;
+    optOut(ctx, player, player.isConnected ? 'timed_out' : 'disconnected');
+  }
+
+  if (state.players.some(p => p.bidStartTime !== null)) {
+    startGracePeriod(ctx);
+  } else {
+    endRound(ctx);
+  }
+}
+
+// Bidding limit: lock in everyone still holding at the deadline
+function closeBidding(ctx: Context): void {
+  const { state } = ctx;
+  if (state.roundPhase !== 'bidding') return;
+  if (state.phaseEndTime === null || ctx.now < state.phaseEndTime) return;
+
+  for (const player of state.players) {
+    if (player.bidStartTime !== null) {
+      lockInBid(ctx, player, state.phaseEndTime, 'timed_out');
+    }
+  }
+
+  checkRoundEnd(ctx);
+}
+
+function checkRoundEnd(ctx: Context): void {
+  const { state } = ctx;
+  if (state.roundPhase !== 'bidding') return;
+
+  // Round ends when NO connected player is still holding
+  const someoneStillHolding = state.players.some(
+    p => p.isConnected && p.bidStartTime !== null
+  );
+
+  if (!someoneStillHolding) {
+    endRound(ctx);
+  }
+}
+
+function endRound(ctx: Context): void {
+  const { state } = ctx;
+
+  enterPhase(ctx, 'resolution', ROUND_RESULTS_DISPLAY_MS);
+
+  const points = currentRoundPoints(state);
+  const result = resolveRound(state.players, state.currentRound, points, state.settings, state.graceEndTime);
+
+  for (const playerResult of result.playerResults) {
+    if (playerResult.chargedMs <= 0) continue;
+    const player = findPlayer(state, playerResult.playerId);
+    if (player) {
+      // Deduct payment from time bank
+      player.timeRemainingMs = Math.max(0, player.timeRemainingMs - playerResult.chargedMs);
+    }
+  }
+
+  // Award victory points; a shared tie can have several scorers
+  for (const award of result.awards) {
+    const scorer = findPlayer(state, award.playerId);
+    if (scorer) {
+      scorer.victoryPoints += award.points;
+      scorer.lastWinRound = state.currentRound;
+    }
+  }
+
+  state.roundHistory.push(result);
+
+  ctx.messages.push({
+    type: 'roundEnd',
+    results: result,
+    nextRoundIn: ROUND_RESULTS_DISPLAY_MS,
+  });
+
+  for (const player of state.players) {
+    if (player.timeRemainingMs === 0 && player.eliminatedRound === null) {
+      player.eliminatedRound = state.currentRound;
+      ctx.messages.push({ type: 'playerEliminated', playerId: player.id, round: state.currentRound });
+    }
+  }
+
+  checkDecided(ctx);
+}
+
+// Once the leader can't be caught it stays that way, so this fires at most once
+function checkDecided(ctx: Context): void {
+  const { state } = ctx;
+  const { earlyFinish } = state.settings;
+  if (earlyFinish === 'off' || state.decidedInRound !== null) return;
+  if (state.currentRound >= state.settings.numRounds) return;
+
+  const leaderId = decidedLeader(state);
+  if (!leaderId) return;
+
+  state.decidedInRound = state.currentRound;
+  ctx.messages.push({ type: 'gameDecided', leaderId, autoEnd: earlyFinish === 'auto' });
+}
+
+// The leader, if nobody else can still reach or tie their points
+function decidedLeader(state: EngineState): string | null {
+  const { elimination } = state.settings;
+  const [leader, ...others] = computeStandings(state.players, elimination);
+  if (!leader) return null;
+
+  const remaining = remainingPointsBound(state);
+  const canCatch = others.some(other => {
+    if (other.isEliminated && !leader.isEliminated && elimination !== 'sit_out') return false;
+    // The bankrupt can't win rounds, but may already be level on points
+    const best = other.victoryPoints + (other.isEliminated ? 0 : remaining);
+    return best >= leader.victoryPoints;
+  });
+
+  return canCatch ? null : leader.playerId;
+}
+
+// Most points still on offer, as far as the players know: an unplayed
+// jackpot is assumed to still be ahead, so deciding early can't reveal it
+function remainingPointsBound(state: EngineState): number {
+  const played = state.roundPoints.slice(0, state.currentRound);
+  const upcoming = state.roundPoints.slice(state.currentRound);
+  if (state.settings.pointSchedule === 'jackpot' && upcoming.length > 0 && !played.some(p => p > 1)) {
+    return upcoming.length - 1 + state.settings.bonusRoundPoints;
+  }
+  return upcoming.reduce((sum, p) => sum + p, 0);
+}
+
+// Why the game should end before its last round, if it should
+function earlyEndReason(state: EngineState): GameEndReason | null {
+  const solvent = state.players.filter(p => p.eliminatedRound === null).length;
+  if (solvent === 0) return 'no_time_left';
+  if (state.settings.elimination === 'last_standing' && solvent <= 1) return 'last_standing';
+  if (state.settings.earlyFinish === 'auto' && state.decidedInRound !== null) return 'decided';
+  return null;
+}
+
+// Works out who takes a round's points from each player's locked-in bid, and
+// what each player pays for it. Bids are ranked before anything is decided, so
+// the result never depends on the order players are stored in.
+export function resolveRound(
+  players: EnginePlayer[],
+  roundNumber: number,
+  points: number,
+  settings: TableSettings,
+  graceEndTime: number | null
+): RoundResult {
+  const sinceGraceEnd = (time: number | null) =>
+    time === null || graceEndTime === null ? null : time - graceEndTime;
+
+  // Places are shared by releases at the same instant, e.g. when bidding closes
+  const releaseTimes = players.flatMap(p =>
+    p.holdStartTime !== null && p.releaseTime !== null ? [p.releaseTime] : []
+  );
+  const releaseOrderOf = ({ holdStartTime, releaseTime }: EnginePlayer): number | null => {
+    if (holdStartTime === null || releaseTime === null) return null;
+    return 1 + releaseTimes.filter(t => t < releaseTime).length;
+  };
+
+  const playerResults: PlayerRoundResult[] = players.map(player => ({
+    playerId: player.id,
+    displayName: player.displayName,
+    bidMs: player.currentBidMs,
+    chargedMs: 0,
+    participated: player.currentBidMs > 0,
+    startCompensationMs: player.startCompensationMs,
+    endCompensationMs: player.endCompensationMs,
+    heldFromMs: sinceGraceEnd(player.holdStartTime),
+    releasedAtMs: sinceGraceEnd(player.releaseTime),
+    optedOutInGrace: player.releaseTime !== null && player.currentBidMs === 0 &&
+      (graceEndTime === null || player.releaseTime <= graceEndTime),
+    releaseOrder: releaseOrderOf(player),
+    // Someone who was gone for the whole round didn't bid because they were away
+    outcome: player.bidOutcome === 'no_bid' && !player.isConnected
+      ? 'disconnected'
+      : player.bidOutcome,
+  }));
+
+  // Highest bid first; equal bids keep seat order
+  const ranked = players
+    .filter(p => p.currentBidMs > 0)
+    .sort((a, b) => b.currentBidMs - a.currentBidMs || players.indexOf(a) - players.indexOf(b));
+
+  // Everyone within the threshold of the top bid is tied with it
+  const topBidMs = ranked[0]?.currentBidMs ?? 0;
+  const tied = ranked.filter(p => topBidMs - p.currentBidMs <= settings.tieThresholdMs);
+  const wasTie = tied.length > 1;
+  const scorers = wasTie ? breakTie(tied, settings.tieBreak) : tied;
+
+  const pointsEach = wasTie && settings.tieBreak === 'split' ? points / scorers.length : points;
+  const winner = scorers.length === 1 ? scorers[0] : null;
+  const scorerIds = scorers.map(p => p.id);
+
+  for (const playerResult of playerResults) {
+    playerResult.chargedMs = computePayment(playerResult, playerResults, scorerIds, settings.paymentRule);
+  }
+
+  return {
+    roundNumber,
+    points,
+    winnerId: winner?.id ?? null,
+    winnerName: winner?.displayName ?? null,
+    winningBidMs: winner?.currentBidMs ?? topBidMs,
+    wasTie,
+    tiedPlayerIds: wasTie ? tied.map(p => p.id) : [],
+    awards: scorers.map(p => ({ playerId: p.id, points: pointsEach })),
+    sealed: false,
+    playerResults,
+  };
+}
+
+// Who scores from a group of tied bids, under the table's tie-break rule
+function breakTie(tied: EnginePlayer[], tieBreak: TieBreak): EnginePlayer[] {
+  switch (tieBreak) {
+    case 'no_winner':
+      return [];
+    case 'all_score':
+    case 'split':
+      return tied;
+    case 'less_time': {
+      // Still a dead heat if the lowest banks are level too
+      const lowest = Math.min(...tied.map(p => p.timeRemainingMs));
+      const poorest = tied.filter(p => p.timeRemainingMs === lowest);
+      return poorest.length === 1 ? poorest : [];
+    }
+  }
+}
+
+// Everyone who scores pays as a winner, so a shared tie charges each of them
+function computePayment(
+  playerResult: PlayerRoundResult,
+  allResults: PlayerRoundResult[],
+  winnerIds: string[],
+  paymentRule: PaymentRule
+): number {
+  if (!playerResult.participated) return 0;
+  const isWinner = winnerIds.includes(playerResult.playerId);
+
+  switch (paymentRule) {
+    case 'all_pay':
+      return playerResult.bidMs;
+    case 'winner_pays':
+      return isWinner ? playerResult.bidMs : 0;
+    case 'second_price': {
+      if (!isWinner) return 0;
+      // Highest bid among everyone else, or nothing if the winner bid alone.
+      // A tie-break can pick a winner who bid less than someone they tied
+      // with, and nobody pays more than they bid.
+      const otherBids = allResults
+        .filter(r => !winnerIds.includes(r.playerId))
+        .map(r => r.bidMs);
+      return Math.min(playerResult.bidMs, Math.max(0, ...otherBids));
+    }
+    case 'losers_pay_half':
+      return isWinner ? playerResult.bidMs : Math.floor(playerResult.bidMs / 2);
+  }
+}
+
+function startNextRound(ctx: Context): void {
+  const { state } = ctx;
+
+  state.currentRound++;
+  state.graceEndTime = null;
+  enterPhase(ctx, 'pre_round', PRE_ROUND_COUNTDOWN_MS);
+
+  // Reset player round state
+  for (const player of state.players) {
+    player.bidStartTime = null;
+    player.bidEndTime = null;
+    player.startCompensationMs = 0;
+    player.endCompensationMs = 0;
+    player.holdStartTime = null;
+    player.releaseTime = null;
+    player.currentBidMs = 0;
+    player.hasReleasedThisRound = false;
+    player.bidOutcome = 'no_bid';
+  }
+
+  ctx.messages.push({
+    type: 'roundStart',
+    round: state.currentRound,
+    totalRounds: state.settings.numRounds,
+    points: currentRoundPoints(state),
+  });
+}
+
+// Points on offer in each round, decided once when the game starts
+export function buildRoundPoints(
+  numRounds: number,
+  schedule: PointSchedule,
+  bonusPoints: number,
+  seed: number
+): number[] {
+  const points = new Array<number>(numRounds).fill(1);
+  if (numRounds === 0) return points;
+
+  switch (schedule) {
+    case 'flat':
+      break;
+    case 'final_round':
+      points[numRounds - 1] = bonusPoints;
+      break;
+    case 'jackpot':
+      points[Math.floor(seededRandom(seed)() * numRounds)] = bonusPoints;
+      break;
+  }
+  return points;
+}
+
+function currentRoundPoints(state: EngineState): number {
+  return state.roundPoints[state.currentRound - 1] ?? 1;
+}
+
+// Small deterministic PRNG (mulberry32) so a seed fully determines a game
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function endGame(ctx: Context, reason: GameEndReason): void {
+  const { state } = ctx;
+
+  state.status = 'finished';
+  state.phaseEndTime = null;
+  state.pausedAt = null;
+
+  ctx.messages.push({
+    type: 'gameEnd',
+    standings: computeStandings(state.players, state.settings.elimination),
+    reason,
+  });
+}
+
+// ===== Views =====
+
+export function computeStandings(
+  players: EnginePlayer[],
+  elimination: EliminationMode = 'sit_out'
+): FinalStanding[] {
+  const eliminatedRound = new Map(players.map(p => [p.id, p.eliminatedRound]));
+
+  const standings: FinalStanding[] = players
+    .map(p => ({
+      rank: 0,
+      playerId: p.id,
+      displayName: p.displayName,
+      victoryPoints: p.victoryPoints,
+      seriesPoints: p.seriesPoints + p.victoryPoints,
+      timeRemainingMs: p.timeRemainingMs,
+      lastWinRound: p.lastWinRound,
+      isEliminated: p.eliminatedRound !== null,
+    }))
+    .sort((a, b) => {
+      if (elimination !== 'sit_out') {
+        // Anyone with time left outranks the bankrupt
+        if (a.isEliminated !== b.isEliminated) {
+          return a.isEliminated ? 1 : -1;
+        }
+        // Among the bankrupt, outlasting others is what counts
+        if (elimination === 'last_standing' && a.isEliminated) {
+          const outlasted = (eliminatedRound.get(b.playerId) ?? 0) - (eliminatedRound.get(a.playerId) ?? 0);
+          if (outlasted !== 0) return outlasted;
+        }
+      }
+
+      // Sort by: points (desc) -> time remaining (desc) -> last win round (desc)
+      if (b.victoryPoints !== a.victoryPoints) {
+        return b.victoryPoints - a.victoryPoints;
+      }
+      if (b.timeRemainingMs !== a.timeRemainingMs) {
+        return b.timeRemainingMs - a.timeRemainingMs;
+      }
+      return (b.lastWinRound ?? 0) - (a.lastWinRound ?? 0);
+    });
+
+  standings.forEach((s, i) => {
+    s.rank = i + 1;
+  });
+
+  return standings;
+}
+
+export function toPlayerInfo(player: EnginePlayer): Player {
+  return {
+    id: player.id,
+    displayName: player.displayName,
+    isHost: player.isHost,
+    isReady: player.isReady,
+    isConnected: player.isConnected,
+    timeRemainingMs: player.timeRemainingMs,
+    victoryPoints: player.victoryPoints,
+    seriesPoints: player.seriesPoints + player.victoryPoints,
+    lastWinRound: player.lastWinRound,
+    isEliminated: player.eliminatedRound !== null,
+    botStrategy: player.botStrategy,
+  };
+}
+
+export function toGameState(state: EngineState): GameState {
+  return {
+    status: state.status,
+    currentRound: state.currentRound,
+    totalRounds: state.settings.numRounds,
+    roundPoints: currentRoundPoints(state),
+    disclosure: state.settings.disclosure,
+    roundPhase: state.roundPhase,
+    phaseStartTime: state.phaseStartTime,
+    phaseEndTime: state.phaseEndTime,
+    pausedAt: state.pausedAt,
+    decidedInRound: state.decidedInRound,
+    players: state.players.map(toPlayerInfo),
+    playerBids: state.players.map(p => ({
+      playerId: p.id,
+      isBidding: p.bidStartTime !== null,
+      currentBidMs: p.currentBidMs,
+      hasReleasedThisRound: p.hasReleasedThisRound,
+      bankExhausted: p.bidOutcome === 'bank_exhausted',
+    })),
+  };
+}
+
+// ===== Disclosure =====
+
+function hidesBanks(mode: DisclosureMode): boolean {
+  return mode === 'hide_banks' || mode === 'sealed';
+}
+
+function hidesHolding(mode: DisclosureMode): boolean {
+  return mode === 'hide_holding' || mode === 'sealed';
+}
+
+// Tailors a broadcast to what one recipient may see under the table's
+// disclosure mode. `phase` is the round phase the message was produced in;
+// `recipientId` is null for connections that have not joined as a player.
+// Returns null when the recipient should not receive the message at all.
+export function redactMessage(
+  message: ServerMessage,
+  state: EngineState,
+  recipientId: string | null,
+  phase: RoundPhase
+): ServerMessage | null {
+  const mode = state.settings.disclosure;
+  if (mode === 'full' || state.status === 'finished') return message;
+
+  switch (message.type) {
+    case 'lobbyState':
+      return { ...message, players: message.players.map(p => redactPlayer(p, mode, recipientId)) };
+    case 'playerJoined':
+      return { ...message, player: redactPlayer(message.player, mode, recipientId) };
+    case 'gameState':
+      return {
+        ...message,
+        state: redactGameState(message.state, mode, recipientId),
+        ...(message.lastRoundResult && hidesBanks(mode)
+          ? { lastRoundResult: sealRoundResult(message.lastRoundResult, recipientId) }
+          : {}),
+      };
+    case 'playerHoldingUpdate': {
+      // Holding up to the grace period is public - it's how the round starts
+      const inRound = phase === 'grace_period' || phase === 'bidding';
+      return hidesHolding(mode) && inRound && message.playerId !== recipientId ? null : message;
+    }
+    case 'bidUpdate':
+      if (message.playerId === recipientId) return message;
+      if (hidesHolding(mode)) return null;
+      return { ...message, currentBidMs: 0, bankExhausted: false };
+    case 'roundEnd':
+      return hidesBanks(mode)
+        ? { ...message, results: sealRoundResult(message.results, recipientId) }
+        : message;
+    case 'playerEliminated':
+      // Running out of time would give the bank away; the final standings say who
+      return hidesBanks(mode) && message.playerId !== recipientId ? null : message;
+    default:
+      return message;
+  }
+}
+
+function redactPlayer(player: Player, mode: DisclosureMode, recipientId: string | null): Player {
+  if (!hidesBanks(mode) || player.id === recipientId) return player;
+  return { ...player, timeRemainingMs: null, isEliminated: false };
+}
+
+function redactGameState(
+  gameState: GameState,
+  mode: DisclosureMode,
+  recipientId: string | null
+): GameState {
+  const inRound = gameState.roundPhase === 'grace_period' || gameState.roundPhase === 'bidding';
+
+  return {
+    ...gameState,
+    players: gameState.players.map(p => redactPlayer(p, mode, recipientId)),
+    playerBids: gameState.playerBids.map(bid => {
+      if (bid.playerId === recipientId) return bid;
+      if (hidesHolding(mode) && inRound) {
+        return { ...bid, isBidding: false, currentBidMs: 0, hasReleasedThisRound: false, bankExhausted: false };
+      }
+      if (hidesBanks(mode)) {
+        return { ...bid, currentBidMs: 0, bankExhausted: false };
+      }
+      return bid;
+    }),
+  };
+}
+
+function sealRoundResult(result: RoundResult, recipientId: string | null): RoundResult {
+  return {
+    ...result,
+    sealed: true,
+    winningBidMs: result.winnerId === recipientId ? result.winningBidMs : 0,
+    // Who tied at the top, and who bid at all, would give the bids away too
+    tiedPlayerIds: [],
+    playerResults: result.playerResults.map(r => {
+      if (r.playerId === recipientId) return r;
+      return {
+        ...r,
+        bidMs: 0,
+        chargedMs: 0,
+        participated: false,
+        // When they let go, and in what order, would give the bid away
+        releasedAtMs: null,
+        releaseOrder: null,
+        // Running out of time would give the bank away
+        outcome: r.outcome === 'bank_exhausted' ? 'released' : r.outcome,
+      };
+    }),
+  };
+}
@@ -1,2 +1,5 @@
 export * from './types';
 export * from './constants';
+export * from './engine';
+export * from './validation';
+export * from './bots';
@@ -1,11 +1,70 @@
 // ===== Game Configuration =====
 
+export type PaymentRule =
+  | 'all_pay'            // Every participant pays their bid
+  | 'winner_pays'        // Only the winner pays their bid
+  | 'second_price'       // Only the winner pays, at the second-highest bid
+  | 'losers_pay_half';   // Winner pays their bid, everyone else pays half
+
+export type PointSchedule =
+  | 'flat'               // Every round is worth 1 point
+  | 'final_round'        // The last round is worth bonusRoundPoints
+  | 'jackpot';           // One random round is worth bonusRoundPoints, revealed when it starts
+
+export type DisclosureMode =
+  | 'full'               // Everyone sees everything
+  | 'hide_banks'         // Opponents' banks and bid amounts stay hidden until game end
+  | 'hide_holding'       // Opponents' holds and releases stay hidden until the round ends
+  | 'sealed';            // Both of the above
+
+export type EliminationMode =
+  | 'sit_out'            // Bankrupt players skip rounds but keep their ranking
+  | 'eliminate'          // Bankrupt players rank below everyone with time left
+  | 'last_standing';     // As 'eliminate', and the game ends when one player has time left
+
+export type EarlyFinishMode =
+  | 'off'                // Always play every round
+  | 'offer'              // Let the host end the game once the leader can't be caught
+  | 'auto';              // End it automatically at that point
+
+export type TieBreak =
+  | 'no_winner'          // Nobody scores
+  | 'all_score'          // Every tied player scores the full points
+  | 'split'              // Tied players share the points
+  | 'less_time';         // The tied player with the least time left scores
+
+export type BotStrategy =
+  | 'fixed_fraction'     // Bids the same share of its bank every round
+  | 'bank_aware'         // Bids just over what the richest opponent can afford per round
+  | 'bluffer'            // Random bids, and sometimes drops out during the grace period
+  | 'grace_dropper';     // Drops out during the grace period while it leads
+
+export type Emote = 'thumbs_up' | 'laugh' | 'wow' | 'sweat' | 'fire' | 'clap';
+
+export type GameEndReason =
+  | 'completed'          // Every round was played
+  | 'decided'            // The leader could no longer be caught
+  | 'last_standing'      // Only one player had time left
+  | 'no_time_left';      // Every bank ran out
+
 export interface TableSettings {
   tableName: string;
   startingTimeMs: number;      // Default: 600000 (10 min)
   numRounds: number;           // Default: 10
   maxPlayers: number;          // Default: 8
   gracePeriodMs: number;       // Default: 5000 (5s)
+  paymentRule: PaymentRule;    // Default: 'all_pay'
+  pointSchedule: PointSchedule; // Default: 'flat'
+  bonusRoundPoints: number;    // Default: 3
+  disclosure: DisclosureMode;  // Default: 'full'
+  spectatorDelayMs: number;    // Default: 0; how far behind spectators see the game
+  elimination: EliminationMode; // Default: 'sit_out'
+  earlyFinish: EarlyFinishMode; // Default: 'offer'
+  holdTimeoutMs: number;       // Default: 30000; 0 waits for every player to hold
+  maxBiddingMs: number;        // Default: 0 (no limit)
+  tieThresholdMs: number;      // Default: 100; bids this close to the top bid tie with it
+  tieBreak: TieBreak;          // Default: 'no_winner'
+  chatDuringBidding: boolean;  // Default: true; false closes text chat (not emotes) from the grace period to the round's end
   hasPassword: boolean;
 }
 
@@ -16,6 +75,18 @@ export interface CreateTableRequest {
   numRounds: number;
   maxPlayers: number;
   gracePeriodSeconds: number;
+  paymentRule: PaymentRule;
+  pointSchedule: PointSchedule;
+  bonusRoundPoints: number;
+  disclosure: DisclosureMode;
+  spectatorDelaySeconds: number;
+  elimination: EliminationMode;
+  earlyFinish: EarlyFinishMode;
+  holdTimeoutSeconds: number;
+  maxBiddingSeconds: number;
+  tieThresholdMs: number;
+  tieBreak: TieBreak;
+  chatDuringBidding: boolean;
 }
 
 export interface CreateTableResponse {
@@ -41,9 +112,20 @@ export interface Player {
   isHost: boolean;
   isReady: boolean;
   isConnected: boolean;
-  timeRemainingMs: number;
+  timeRemainingMs: number | null;  // null when hidden from this recipient
   victoryPoints: number;
+  seriesPoints: number;            // Across rematches, including this game
   lastWinRound: number | null;
+  isEliminated: boolean;           // Bank ran out; sits out the remaining rounds
+  botStrategy: BotStrategy | null; // Set for seats played by the server
+}
+
+export type ConnectionRole = 'player' | 'spectator';
+
+export interface Spectator {
+  id: string;
+  displayName: string;
+  isConnected: boolean;
 }
 
 export interface PlayerBidStatus {
@@ -51,6 +133,7 @@ export interface PlayerBidStatus {
   isBidding: boolean;
   currentBidMs: number;
   hasReleasedThisRound: boolean;
+  bankExhausted: boolean;      // Auto-released because their time bank ran out
 }
 
 // ===== Game State =====
@@ -68,28 +151,69 @@ export interface GameState {
   status: TableStatus;
   currentRound: number;
   totalRounds: number;
+  roundPoints: number;         // What the current round is worth
+  disclosure: DisclosureMode;
   roundPhase: RoundPhase;
   phaseStartTime: number;      // Server timestamp
   phaseEndTime: number | null; // For countdowns
+  pausedAt: number | null;     // Set while the host has paused the game
+  decidedInRound: number | null; // Round after which the leader could no longer be caught
   players: Player[];
   playerBids: PlayerBidStatus[];
 }
 
+// ===== Chat =====
+
+export interface ChatMessage {
+  id: number;                  // Increasing per table
+  senderId: string;            // Player or spectator
+  senderName: string;
+  text: string | null;         // A typed message...
+  emote: Emote | null;         // ...or an emote
+  sentAt: number;              // Server timestamp
+}
+
 // ===== Round Results =====
 
+export type BidOutcome =
+  | 'no_bid'           // Never held past the grace period
+  | 'released'         // Let go during bidding
+  | 'bank_exhausted'   // Auto-released when their time bank ran out
+  | 'disconnected'     // Connection dropped; auto-released at disconnect time
+  | 'timed_out';       // Missed the hold window, or still holding when bidding closed
+
 export interface PlayerRoundResult {
   playerId: string;
   displayName: string;
   bidMs: number;
+  chargedMs: number;           // Actually deducted from their bank under the payment rule
   participated: boolean;
+  outcome: BidOutcome;
+  startCompensationMs: number; // Latency the server credited to the press
+  endCompensationMs: number;   // ...and to the release (0 if the server ended the bid)
+  // Timing, in ms from the end of the grace period (negative = before it).
+  // Null if they never held into the round, or the grace period never ended.
+  heldFromMs: number | null;   // When they picked up the button
+  releasedAtMs: number | null; // When they let go, or were let go by the server
+  optedOutInGrace: boolean;    // Let go during the grace period, so bid nothing
+  releaseOrder: number | null; // 1 = first to let go; simultaneous releases share a place
+}
+
+export interface RoundAward {
+  playerId: string;
+  points: number;              // Fractional when a tie is split
 }
 
 export interface RoundResult {
   roundNumber: number;
-  winnerId: string | null;
+  points: number;              // What the round was worth
+  winnerId: string | null;     // Sole scorer, if exactly one player scored
   winnerName: string | null;
   winningBidMs: number;
   wasTie: boolean;
+  tiedPlayerIds: string[];     // Bids within the tie threshold of the top bid, when more than one
+  awards: RoundAward[];        // Everyone who scored; several after a shared tie
+  sealed: boolean;             // Other players' amounts (and the winning bid) are withheld
   playerResults: PlayerRoundResult[];
 }
 
@@ -100,44 +224,122 @@ export interface FinalStanding {
   playerId: string;
   displayName: string;
   victoryPoints: number;
+  seriesPoints: number;   // Across rematches, including this game
   timeRemainingMs: number;
   lastWinRound: number | null;
+  isEliminated: boolean;
 }
 
 // ===== WebSocket Messages =====
 
+// Optional parts of the protocol. Each side lists the ones it understands and
+// only those both share are used.
+export type ProtocolFeature =
+  | 'spectators'         // spectatorsUpdate
+  | 'bots'               // addBot, removeBot and Player.botStrategy
+  | 'resync'             // seq on table messages, and resync
+  | 'chat';              // chat, emote, chatMessage and chatHistory
+
 // Client -> Server
 export type ClientMessage =
-  | { type: 'join'; playerName: string; password?: string; reconnectToken?: string }
+  | {
+      type: 'join';
+      playerName: string;
+      password?: string;
+      reconnectToken?: string;
+      hostToken?: string;
+      role?: ConnectionRole;
+      protocolVersion?: number;     // Absent from clients before versioning, which speak version 1
+      features?: ProtocolFeature[];
+    }
   | { type: 'ready'; isReady: boolean }
   | { type: 'startGame' }
   | { type: 'bidStart'; clientTimestamp: number }
   | { type: 'bidEnd'; clientTimestamp: number }
   | { type: 'kick'; playerId: string }
-  | { type: 'ping' }
+  | { type: 'transferHost'; playerId: string }
+  | { type: 'addBot'; strategy: BotStrategy }
+  | { type: 'removeBot'; playerId: string }
+  | { type: 'rematch'; keepSeriesScore: boolean }
+  | { type: 'pause' }
+  | { type: 'finishEarly' }
+  | { type: 'resume' }
+  | { type: 'ping'; clientTime?: number; echo?: number }  // echo: serverTime of the pong being answered
+  | { type: 'resync' }                                      // Missed a message; send the current state again
+  | { type: 'chat'; text: string }
+  | { type: 'emote'; emote: Emote }
   | { type: 'leave' };
 
 // Server -> Client
 export type ServerMessage =
-  | { type: 'welcome'; playerId: string; reconnectToken: string; serverTime: number }
-  | { type: 'error'; code: ErrorCode; message: string }
-  | { type: 'lobbyState'; settings: TableSettings; players: Player[]; hostId: string }
+  | {
+      type: 'welcome';
+      playerId: string;
+      reconnectToken: string;
+      serverTime: number;
+      role: ConnectionRole;
+      protocolVersion?: number;     // The version the server will speak; absent from version 1 servers
+      features?: ProtocolFeature[]; // The features both sides have
+    }
+  | { type: 'error'; code: ErrorCode; message: string; field?: string }
+  | { type: 'lobbyState'; settings: TableSettings; players: Player[]; hostId: string; spectators: Spectator[] }
+  | { type: 'spectatorsUpdate'; spectators: Spectator[] }
   | { type: 'playerJoined'; player: Player }
   | { type: 'playerLeft'; playerId: string }
   | { type: 'playerReady'; playerId: string; isReady: boolean }
   | { type: 'playerKicked'; playerId: string }
+  | { type: 'hostChanged'; hostId: string }
+  | { type: 'hostToken'; hostToken: string }  // Only to the new host, after a handover
   | { type: 'gameStarting'; countdown: number }
-  | { type: 'gameState'; state: GameState }
-  | { type: 'roundStart'; round: number; totalRounds: number }
+  | {
+      type: 'gameState';
+      state: GameState;
+      // Only in a snapshot, since the client may have missed them and nothing
+      // in the state would rebuild them
+      lastRoundResult?: RoundResult;
+      finalResults?: { standings: FinalStanding[]; reason: GameEndReason };
+    }
+  | { type: 'roundStart'; round: number; totalRounds: number; points: number }
   | { type: 'allPlayersHolding'; gracePeriodEndsAt: number }
-  | { type: 'graceExpired' }
+  | { type: 'graceExpired'; phaseEndTime: number | null }
   | { type: 'playerHoldingUpdate'; playerId: string; isHolding: boolean }
-  | { type: 'bidUpdate'; playerId: string; isBidding: boolean; currentBidMs: number }
+  | { type: 'bidUpdate'; playerId: string; isBidding: boolean; currentBidMs: number; bankExhausted?: boolean; timedOut?: boolean }
   | { type: 'roundEnd'; results: RoundResult; nextRoundIn: number }
-  | { type: 'gameEnd'; standings: FinalStanding[] }
+  | { type: 'playerEliminated'; playerId: string; round: number }
+  | { type: 'gameDecided'; leaderId: string; autoEnd: boolean }
+  | { type: 'gameEnd'; standings: FinalStanding[]; reason: GameEndReason }
+  | { type: 'rematchStarting'; keepSeriesScore: boolean }
+  | { type: 'gamePaused'; pausedAt: number }
+  | { type: 'gameResumed'; phaseEndTime: number | null }
   | { type: 'playerDisconnected'; playerId: string; reconnectDeadline: number }
   | { type: 'playerReconnected'; playerId: string }
-  | { type: 'pong'; serverTime: number };
+  | { type: 'pong'; serverTime: number; clientTime?: number }
+  | { type: 'chatMessage'; message: ChatMessage }
+  | { type: 'chatHistory'; messages: ChatMessage[] };   // The recent messages, on joining
+
+// With the 'resync' feature every table message a socket receives (broadcasts
+// and snapshots) is numbered, from 1 in the order sent, so the client can spot
+// one it missed. Messages for the socket alone (welcome, pong, errors) and chat
+// carry none.
+export type SequencedServerMessage = ServerMessage & { seq?: number };
+
+// ===== Event Log =====
+
+export type TableLogEntry =
+  | { kind: 'action'; actorId: string | null; action: ClientMessage }  // Accepted client message, secrets removed
+  | { kind: 'bid'; playerId: string; action: 'bidStart' | 'bidEnd'; clientTimestamp: number; latencyMs: number }
+  | { kind: 'phase'; status: TableStatus; round: number; phase: RoundPhase; phaseEndTime: number | null }
+  | { kind: 'message'; message: ServerMessage };  // Broadcast to the table, before any redaction
+
+export type TableEvent = TableLogEntry & {
+  seq: number;                 // 1-based, gapless
+  at: number;                  // Server timestamp
+};
+
+export interface TableEventsResponse {
+  events: TableEvent[];
+  nextCursor: number | null;   // Pass as `after` for the next page; null at the end
+}
 
 export type ErrorCode =
   | 'TABLE_NOT_FOUND'
@@ -149,4 +351,5 @@ export type ErrorCode =
   | 'NOT_ENOUGH_PLAYERS'
   | 'PLAYERS_NOT_READY'
   | 'INVALID_ACTION'
-  | 'RATE_LIMITED';
+  | 'RATE_LIMITED'
+  | 'PROTOCOL_MISMATCH';
@@ -0,0 +1,383 @@
+// Runtime checks for everything a client sends.
+//
+// The types in ./types vanish at runtime, so JSON off the wire is `unknown`
+// until it passes through here. Each validator returns either a value built
+// field by field (unknown fields are dropped, defaults filled in) or the first
+// field that failed and why. The worker rejects REST bodies and WebSocket
+// messages with that error; the frontend uses the same rules to catch bad input
+// before it is sent.
+
+import type {
+  ClientMessage,
+  ConnectionRole,
+  CreateTableRequest,
+  ProtocolFeature,
+  TableSettings,
+} from './types';
+import {
+  MIN_TABLE_NAME_LENGTH,
+  MAX_TABLE_NAME_LENGTH,
+  MIN_PLAYER_NAME_LENGTH,
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  MIN_STARTING_TIME_SECONDS,
+  MAX_STARTING_TIME_SECONDS,
+  MIN_ROUNDS,
+  MAX_ROUNDS,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  MIN_GRACE_PERIOD_SECONDS,
+  MAX_GRACE_PERIOD_SECONDS,
+  DEFAULT_PAYMENT_RULE,
+  PAYMENT_RULES,
+  DEFAULT_POINT_SCHEDULE,
+  POINT_SCHEDULES,
+  DEFAULT_BONUS_ROUND_POINTS,
+  MIN_BONUS_ROUND_POINTS,
+  MAX_BONUS_ROUND_POINTS,
+  DEFAULT_DISCLOSURE,
+  DISCLOSURE_MODES,
+  DEFAULT_SPECTATOR_DELAY_MS,
+  MIN_SPECTATOR_DELAY_SECONDS,
+  MAX_SPECTATOR_DELAY_SECONDS,
+  DEFAULT_ELIMINATION,
+  ELIMINATION_MODES,
+  DEFAULT_EARLY_FINISH,
+  EARLY_FINISH_MODES,
+  DEFAULT_HOLD_TIMEOUT_MS,
+  MIN_HOLD_TIMEOUT_SECONDS,
+  MAX_HOLD_TIMEOUT_SECONDS,
+  DEFAULT_MAX_BIDDING_MS,
+  MIN_BIDDING_PHASE_MS,
+  MAX_BIDDING_SECONDS,
+  DEFAULT_TIE_THRESHOLD_MS,
+  MIN_TIE_THRESHOLD_MS,
+  MAX_TIE_THRESHOLD_MS,
+  DEFAULT_TIE_BREAK,
+  TIE_BREAKS,
+  BOT_STRATEGIES,
+  PROTOCOL_FEATURES,
+  DEFAULT_CHAT_DURING_BIDDING,
+  MAX_CHAT_MESSAGE_LENGTH,
+  EMOTES,
+} from './constants';
+
+export interface ValidationError {
+  field: string;               // Offending field, or '' when the whole payload is wrong
+  message: string;
+}
+
+export type Validated<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ValidationError };
+
+// Letters and digits in any script, plus single spaces and a little punctuation
+const PLAYER_NAME_PATTERN = /^[\p{L}\p{N}](?:[\p{L}\p{N}_.'-]| (?! ))*$/u;
+// Anything printable; no control or invisible formatting characters
+const TABLE_NAME_PATTERN = /^[^\p{C}]*$/u;
+// The same, but keeping the zero-width joiner that multi-part emoji need
+const CHAT_TEXT_PATTERN = /^(?:[^\p{C}]|\u200d)*$/u;
+// Reconnect and host tokens are 32 random bytes in hex
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+// Player ids are UUIDs, but only ever compared, so just bound them
+const MAX_ID_LENGTH = 64;
+
+const ROLES: readonly ConnectionRole[] = ['player', 'spectator'];
+// Far more than any client will list, but bounded
+const MAX_FEATURES = 32;
+
+// ===== Field readers =====
+
+type Body = Record<string, unknown>;
+
+class FieldError extends Error {
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(message);
+    this.field = field;
+  }
+}
+
+function guard<T>(read: () => T): Validated<T> {
+  try {
+    return { ok: true, value: read() };
+  } catch (err) {
+    if (err instanceof FieldError) {
+      return { ok: false, error: { field: err.field, message: err.message } };
+    }
+    throw err;
+  }
+}
+
+function asBody(raw: unknown): Body {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new FieldError('', 'Expected a JSON object');
+  }
+  return raw as Body;
+}
+
+// Absent fields take the fallback; present ones must still be valid
+function optional<T>(body: Body, field: string, fallback: T, read: (body: Body, field: string) => T): T {
+  return body[field] === undefined ? fallback : read(body, field);
+}
+
+function readString(body: Body, field: string, maxLength: number): string {
+  const value = body[field];
+  if (typeof value !== 'string') {
+    throw new FieldError(field, `${field} must be a string`);
+  }
+  if (value.length > maxLength) {
+    throw new FieldError(field, `${field} must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function readBoolean(body: Body, field: string): boolean {
+  const value = body[field];
+  if (typeof value !== 'boolean') {
+    throw new FieldError(field, `${field} must be true or false`);
+  }
+  return value;
+}
+
+function readNumber(body: Body, field: string): number {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FieldError(field, `${field} must be a number`);
+  }
+  return value;
+}
+
+function readInteger(body: Body, field: string, min: number, max: number): number {
+  const value = readNumber(body, field);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new FieldError(field, `${field} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+// Timeouts where 0 switches the limit off
+function readLimit(body: Body, field: string, min: number, max: number): number {
+  const value = readNumber(body, field);
+  if (!Number.isInteger(value) || (value !== 0 && (value < min || value > max))) {
+    throw new FieldError(field, `${field} must be 0 or a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function readEnum<T extends string>(body: Body, field: string, options: readonly T[]): T {
+  const value = body[field];
+  if (!options.includes(value as T)) {
+    throw new FieldError(field, `${field} must be one of: ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+function readToken(body: Body, field: string): string {
+  const value = readString(body, field, 64);
+  if (!TOKEN_PATTERN.test(value)) {
+    throw new FieldError(field, `${field} is not a valid token`);
+  }
+  return value;
+}
+
+function readId(body: Body, field: string): string {
+  const value = readString(body, field, MAX_ID_LENGTH);
+  if (!value) {
+    throw new FieldError(field, `${field} is required`);
+  }
+  return value;
+}
+
+function readTimestamp(body: Body, field: string): number {
+  const value = readNumber(body, field);
+  if (value < 0) {
+    throw new FieldError(field, `${field} must not be negative`);
+  }
+  return value;
+}
+
+function readPlayerName(body: Body, field: string): string {
+  const value = readString(body, field, Infinity).trim();
+  if (value.length < MIN_PLAYER_NAME_LENGTH || value.length > MAX_PLAYER_NAME_LENGTH) {
+    throw new FieldError(field, `Name must be ${MIN_PLAYER_NAME_LENGTH}-${MAX_PLAYER_NAME_LENGTH} characters`);
+  }
+  if (!PLAYER_NAME_PATTERN.test(value)) {
+    throw new FieldError(field, 'Name can only use letters, numbers, single spaces and _ . \' -');
+  }
+  return value;
+}
+
+function readTableName(body: Body, field: string): string {
+  const value = readString(body, field, Infinity).trim();
+  if (value.length < MIN_TABLE_NAME_LENGTH || value.length > MAX_TABLE_NAME_LENGTH) {
+    throw new FieldError(field, `Table name must be ${MIN_TABLE_NAME_LENGTH}-${MAX_TABLE_NAME_LENGTH} characters`);
+  }
+  if (!TABLE_NAME_PATTERN.test(value)) {
+    throw new FieldError(field, 'Table name contains invalid characters');
+  }
+  return value;
+}
+
+// Any version is well formed; the server decides which it can speak
+function readVersion(body: Body, field: string): number {
+  const value = readNumber(body, field);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new FieldError(field, `${field} must be a whole number`);
+  }
+  return value;
+}
+
+// Features this build doesn't know come from newer clients and are ignored,
+// not rejected
+function readFeatures(body: Body, field: string): ProtocolFeature[] {
+  const value = body[field];
+  if (!Array.isArray(value) || value.length > MAX_FEATURES || value.some(f => typeof f !== 'string')) {
+    throw new FieldError(field, `${field} must be a list of at most ${MAX_FEATURES} names`);
+  }
+  return PROTOCOL_FEATURES.filter(f => value.includes(f));
+}
+
+function readChatText(body: Body, field: string): string {
+  const value = readString(body, field, Infinity).trim();
+  if (!value) {
+    throw new FieldError(field, 'Message is empty');
+  }
+  if (value.length > MAX_CHAT_MESSAGE_LENGTH) {
+    throw new FieldError(field, `Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+  }
+  if (!CHAT_TEXT_PATTERN.test(value)) {
+    throw new FieldError(field, 'Message contains invalid characters');
+  }
+  return value;
+}
+
+// An empty password means no password
+function readPassword(body: Body, field: string): string | undefined {
+  return readString(body, field, MAX_PASSWORD_LENGTH) || undefined;
+}
+
+// ===== Validators =====
+
+export function validatePlayerName(name: unknown): Validated<string> {
+  return guard(() => readPlayerName({ name }, 'name'));
+}
+
+// Settings a client may omit fall back to the table defaults
+export function validateCreateTableRequest(raw: unknown): Validated<CreateTableRequest> {
+  return guard(() => {
+    const body = asBody(raw);
+    return {
+      name: readTableName(body, 'name'),
+      password: optional(body, 'password', undefined, readPassword),
+      startingTimeSeconds: readInteger(body, 'startingTimeSeconds', MIN_STARTING_TIME_SECONDS, MAX_STARTING_TIME_SECONDS),
+      numRounds: readInteger(body, 'numRounds', MIN_ROUNDS, MAX_ROUNDS),
+      maxPlayers: readInteger(body, 'maxPlayers', MIN_PLAYERS, MAX_PLAYERS),
+      gracePeriodSeconds: readInteger(body, 'gracePeriodSeconds', MIN_GRACE_PERIOD_SECONDS, MAX_GRACE_PERIOD_SECONDS),
+      paymentRule: optional(body, 'paymentRule', DEFAULT_PAYMENT_RULE,
+        (b, f) => readEnum(b, f, PAYMENT_RULES)),
+      pointSchedule: optional(body, 'pointSchedule', DEFAULT_POINT_SCHEDULE,
+        (b, f) => readEnum(b, f, POINT_SCHEDULES)),
+      bonusRoundPoints: optional(body, 'bonusRoundPoints', DEFAULT_BONUS_ROUND_POINTS,
+        (b, f) => readInteger(b, f, MIN_BONUS_ROUND_POINTS, MAX_BONUS_ROUND_POINTS)),
+      disclosure: optional(body, 'disclosure', DEFAULT_DISCLOSURE,
+        (b, f) => readEnum(b, f, DISCLOSURE_MODES)),
+      spectatorDelaySeconds: optional(body, 'spectatorDelaySeconds', DEFAULT_SPECTATOR_DELAY_MS / 1000,
+        (b, f) => readInteger(b, f, MIN_SPECTATOR_DELAY_SECONDS, MAX_SPECTATOR_DELAY_SECONDS)),
+      elimination: optional(body, 'elimination', DEFAULT_ELIMINATION,
+        (b, f) => readEnum(b, f, ELIMINATION_MODES)),
+      earlyFinish: optional(body, 'earlyFinish', DEFAULT_EARLY_FINISH,
+        (b, f) => readEnum(b, f, EARLY_FINISH_MODES)),
+      holdTimeoutSeconds: optional(body, 'holdTimeoutSeconds', DEFAULT_HOLD_TIMEOUT_MS / 1000,
+        (b, f) => readLimit(b, f, MIN_HOLD_TIMEOUT_SECONDS, MAX_HOLD_TIMEOUT_SECONDS)),
+      maxBiddingSeconds: optional(body, 'maxBiddingSeconds', DEFAULT_MAX_BIDDING_MS / 1000,
+        (b, f) => readLimit(b, f, MIN_BIDDING_PHASE_MS / 1000, MAX_BIDDING_SECONDS)),
+      tieThresholdMs: optional(body, 'tieThresholdMs', DEFAULT_TIE_THRESHOLD_MS,
+        (b, f) => readInteger(b, f, MIN_TIE_THRESHOLD_MS, MAX_TIE_THRESHOLD_MS)),
+      tieBreak: optional(body, 'tieBreak', DEFAULT_TIE_BREAK,
+        (b, f) => readEnum(b, f, TIE_BREAKS)),
+      chatDuringBidding: optional(body, 'chatDuringBidding', DEFAULT_CHAT_DURING_BIDDING, readBoolean),
+    };
+  });
+}
+
+// The settings a validated request creates a table with; the request counts
+// in seconds, the table in milliseconds
+export function tableSettingsFromRequest(request: CreateTableRequest): TableSettings {
+  return {
+    tableName: request.name,
+    startingTimeMs: request.startingTimeSeconds * 1000,
+    numRounds: request.numRounds,
+    maxPlayers: request.maxPlayers,
+    gracePeriodMs: request.gracePeriodSeconds * 1000,
+    paymentRule: request.paymentRule,
+    pointSchedule: request.pointSchedule,
+    bonusRoundPoints: request.bonusRoundPoints,
+    disclosure: request.disclosure,
+    spectatorDelayMs: request.spectatorDelaySeconds * 1000,
+    elimination: request.elimination,
+    earlyFinish: request.earlyFinish,
+    holdTimeoutMs: request.holdTimeoutSeconds * 1000,
+    maxBiddingMs: request.maxBiddingSeconds * 1000,
+    tieThresholdMs: request.tieThresholdMs,
+    tieBreak: request.tieBreak,
+    chatDuringBidding: request.chatDuringBidding,
+    hasPassword: !!request.password,
+  };
+}
+
+export function validateClientMessage(raw: unknown): Validated<ClientMessage> {
+  return guard((): ClientMessage => {
+    const body = asBody(raw);
+    const type = body.type;
+
+    switch (type) {
+      case 'join':
+        return {
+          type,
+          playerName: readPlayerName(body, 'playerName'),
+          password: optional(body, 'password', undefined, readPassword),
+          reconnectToken: optional(body, 'reconnectToken', undefined, readToken),
+          hostToken: optional(body, 'hostToken', undefined, readToken),
+          role: optional(body, 'role', undefined, (b, f) => readEnum(b, f, ROLES)),
+          protocolVersion: optional(body, 'protocolVersion', undefined, readVersion),
+          features: optional(body, 'features', undefined, readFeatures),
+        };
+      case 'ready':
+        return { type, isReady: readBoolean(body, 'isReady') };
+      case 'bidStart':
+      case 'bidEnd':
+        return { type, clientTimestamp: readTimestamp(body, 'clientTimestamp') };
+      case 'kick':
+      case 'transferHost':
+      case 'removeBot':
+        return { type, playerId: readId(body, 'playerId') };
+      case 'addBot':
+        return { type, strategy: readEnum(body, 'strategy', BOT_STRATEGIES) };
+      case 'chat':
+        return { type, text: readChatText(body, 'text') };
+      case 'emote':
+        return { type, emote: readEnum(body, 'emote', EMOTES) };
+      case 'ping':
+        return {
+          type,
+          clientTime: optional(body, 'clientTime', undefined, readTimestamp),
+          echo: optional(body, 'echo', undefined, readTimestamp),
+        };
+      case 'rematch':
+        return { type, keepSeriesScore: readBoolean(body, 'keepSeriesScore') };
+      case 'startGame':
+      case 'pause':
+      case 'resume':
+      case 'finishEarly':
+      case 'resync':
+      case 'leave':
+        return { type };
+      default:
+        throw new FieldError('type', typeof type === 'string'
+          ? `Unknown message type '${type.slice(0, MAX_ID_LENGTH)}'`
+          : 'type must be a string');
+    }
+  });
+}
@@ -0,0 +1,184 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import type { BotStrategy, TableSettings } from '../../shared/types'
+import {
+  BOT_STRATEGIES,
+  DEFAULT_GRACE_PERIOD_MS,
+  DEFAULT_NUM_ROUNDS,
+  DEFAULT_STARTING_TIME_MS,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+} from '../../shared/constants'
+import { tableSettingsFromRequest, validateCreateTableRequest } from '../../shared/validation'
+import { runSimulation } from './simulate'
+import type { SimulationReport } from './simulate'
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>          Games to play (default 1000)
+  --seed <n>           Seed for the whole run (default 1)
+  --seats <a,b,...>    One bot strategy per seat (default: one of each)
+                       Strategies: ${BOT_STRATEGIES.join(', ')}
+  --settings <file>    JSON table settings, as sent to POST /api/tables
+  --set <key=value>    Override one setting; repeatable
+  --json               Print the report as JSON instead of a summary
+  --out <file>         Also write the JSON report to a file
+  --help               Show this message`
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      games: { type: 'string', default: '1000' },
+      seed: { type: 'string', default: '1' },
+      seats: { type: 'string' },
+      settings: { type: 'string' },
+      set: { type: 'string', multiple: true, default: [] },
+      json: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const games = readCount(values.games, '--games')
+  const seed = readCount(values.seed, '--seed')
+  const seats = readSeats(values.seats)
+  const settings = readSettings(values.settings, values.set)
+
+  const report = runSimulation({ settings, seats, games, seed })
+  const json = JSON.stringify(report, null, 2)
+
+  if (values.out) writeFileSync(values.out, json + '\n')
+  console.log(values.json ? json : formatReport(report))
+}
+
+function readCount(value: string, flag: string): number {
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 1) fail(`${flag} must be a positive whole number`)
+  return n
+}
+
+function readSeats(value: string | undefined): BotStrategy[] {
+  if (value === undefined) return [...BOT_STRATEGIES]
+  const seats = value.split(',').map(s => s.trim())
+  for (const seat of seats) {
+    if (!(BOT_STRATEGIES as readonly string[]).includes(seat)) {
+      fail(`Unknown strategy "${seat}"; expected one of ${BOT_STRATEGIES.join(', ')}`)
+    }
+  }
+  if (seats.length < MIN_PLAYERS || seats.length > MAX_PLAYERS) {
+    fail(`--seats needs between ${MIN_PLAYERS} and ${MAX_PLAYERS} strategies`)
+  }
+  return seats as BotStrategy[]
+}
+
+// Start from the table defaults, then the settings file, then each --set.
+// The result goes through the same validation as a table created over HTTP.
+function readSettings(file: string | undefined, overrides: string[]): TableSettings {
+  const request: Record<string, unknown> = {
+    name: 'Simulation',
+    startingTimeSeconds: DEFAULT_STARTING_TIME_MS / 1000,
+    numRounds: DEFAULT_NUM_ROUNDS,
+    maxPlayers: MAX_PLAYERS,
+    gracePeriodSeconds: DEFAULT_GRACE_PERIOD_MS / 1000,
+  }
+
+  if (file) {
+    try {
+      Object.assign(request, JSON.parse(readFileSync(file, 'utf8')))
+    } catch (err) {
+      fail(`Couldn't read ${file}: ${err instanceof Error ? err.message : err}`)
+    }
+  }
+
+  for (const override of overrides) {
+    const [key, ...rest] = override.split('=')
+    if (!key || rest.length === 0) fail(`--set expects key=value, got "${override}"`)
+    request[key] = parseValue(rest.join('='))
+  }
+
+  const validated = validateCreateTableRequest(request)
+  if (!validated.ok) {
+    const { field, message } = validated.error
+    fail(field ? `Invalid setting ${field}: ${message}` : `Invalid settings: ${message}`)
+  }
+  return tableSettingsFromRequest(validated.value)
+}
+
+// Numbers and booleans as themselves, anything else as a string
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+function formatReport(report: SimulationReport): string {
+  const { settings } = report
+  const lines = [
+    `${report.games} games, seed ${report.seed}, seats: ${report.seats.join(', ')}`,
+    `${settings.numRounds} rounds, ${settings.startingTimeMs / 1000}s bank, ${settings.gracePeriodMs / 1000}s grace, ` +
+      `${settings.paymentRule}, ${settings.pointSchedule}, tie within ${settings.tieThresholdMs}ms (${settings.tieBreak})`,
+    '',
+    'Strategy          Seats   Win rate   Avg points   Avg time left',
+  ]
+
+  const strategies = Object.entries(report.strategies).sort(([, a], [, b]) => b.winRate - a.winRate)
+  for (const [strategy, stats] of strategies) {
+    lines.push(
+      strategy.padEnd(16) +
+      String(stats.seats).padStart(7) +
+      percent(stats.winRate).padStart(11) +
+      stats.avgPoints.toFixed(2).padStart(13) +
+      seconds(stats.avgTimeLeftMs).padStart(16)
+    )
+  }
+
+  lines.push('', 'Round   Avg bid   Avg winning bid   Avg bidders   Tie rate')
+  for (const round of report.rounds) {
+    lines.push(
+      String(round.round).padStart(5) +
+      seconds(round.avgBidMs).padStart(10) +
+      seconds(round.avgWinningBidMs).padStart(18) +
+      round.avgBidders.toFixed(2).padStart(14) +
+      percent(round.tieRate).padStart(11)
+    )
+  }
+
+  const endReasons = Object.entries(report.endReasons)
+    .map(([reason, count]) => `${reason} ${percent(count / report.games)}`)
+    .join(', ')
+
+  lines.push(
+    '',
+    `Ties:             ${percent(report.tieRate)} of rounds`,
+    `No winner:        ${percent(report.noWinnerRate)} of rounds`,
+    settings.earlyFinish === 'off'
+      ? 'Decided early:    not tracked (earlyFinish is off)'
+      : `Decided early:    ${percent(report.decidedRate)} of games` +
+        (report.avgDecidedRound === null ? '' : `, after round ${report.avgDecidedRound.toFixed(1)} on average`),
+    `Ended by:         ${endReasons}`,
+  )
+  return lines.join('\n')
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`
+}
+
+function fail(message: string): never {
+  console.error(message)
+  console.error(`\n${USAGE}`)
+  process.exit(1)
+}
+
+main()
@@ -0,0 +1,254 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { DisclosureMode, PaymentRule, RoundResult, ServerMessage, TableSettings, TieBreak } from '../../shared/types'
+import {
+  DEFAULT_GRACE_PERIOD_MS,
+  DEFAULT_MAX_PLAYERS,
+  DEFAULT_NUM_ROUNDS,
+  DEFAULT_STARTING_TIME_MS,
+} from '../../shared/constants'
+import { createEnginePlayer, createEngineState, redactMessage, resolveRound, toPlayerInfo } from '../../shared/engine'
+import type { EnginePlayer, EngineState } from '../../shared/engine'
+import { tableSettingsFromRequest, validateCreateTableRequest } from '../../shared/validation'
+
+// Table defaults with a few settings changed, validated like a table created over HTTP
+function makeSettings(overrides: Record<string, unknown> = {}): TableSettings {
+  const validated = validateCreateTableRequest({
+    name: 'Test',
+    startingTimeSeconds: DEFAULT_STARTING_TIME_MS / 1000,
+    numRounds: DEFAULT_NUM_ROUNDS,
+    maxPlayers: DEFAULT_MAX_PLAYERS,
+    gracePeriodSeconds: DEFAULT_GRACE_PERIOD_MS / 1000,
+    ...overrides,
+  })
+  if (!validated.ok) throw new Error(`Invalid test settings: ${validated.error.message}`)
+  return tableSettingsFromRequest(validated.value)
+}
+
+// A player who held through the grace period and let go after bidMs
+function bidder(id: string, bidMs: number, settings: TableSettings, bankMs = settings.startingTimeMs): EnginePlayer {
+  const player = createEnginePlayer(id, id.toUpperCase(), settings)
+  player.timeRemainingMs = bankMs
+  if (bidMs > 0) {
+    player.holdStartTime = -1000
+    player.releaseTime = bidMs
+    player.currentBidMs = bidMs
+    player.hasReleasedThisRound = true
+    player.bidOutcome = 'released'
+  }
+  return player
+}
+
+function resolve(bids: Record<string, number>, overrides: Record<string, unknown>, banks: Record<string, number> = {}): RoundResult {
+  const settings = makeSettings(overrides)
+  const players = Object.entries(bids).map(([id, bidMs]) => bidder(id, bidMs, settings, banks[id]))
+  return resolveRound(players, 1, 1, settings, 0)
+}
+
+function charges(result: RoundResult): Record<string, number> {
+  return Object.fromEntries(result.playerResults.map(r => [r.playerId, r.chargedMs]))
+}
+
+describe('resolveRound', () => {
+  describe('payment rules', () => {
+    const bids = { a: 3000, b: 2000, c: 0 }
+    const expected: Record<PaymentRule, Record<string, number>> = {
+      all_pay: { a: 3000, b: 2000, c: 0 },
+      winner_pays: { a: 3000, b: 0, c: 0 },
+      second_price: { a: 2000, b: 0, c: 0 },
+      losers_pay_half: { a: 3000, b: 1000, c: 0 },
+    }
+
+    for (const [paymentRule, charged] of Object.entries(expected)) {
+      it(`charges ${paymentRule}`, () => {
+        const result = resolve(bids, { paymentRule })
+        assert.equal(result.winnerId, 'a')
+        assert.equal(result.winningBidMs, 3000)
+        assert.deepEqual(charges(result), charged)
+      })
+    }
+
+    it('charges nothing under second_price when the winner bid alone', () => {
+      const result = resolve({ a: 3000, b: 0 }, { paymentRule: 'second_price' })
+      assert.equal(result.winnerId, 'a')
+      assert.deepEqual(charges(result), { a: 0, b: 0 })
+    })
+
+    it('never charges a second_price winner more than they bid', () => {
+      // less_time hands the tie to a, who bid less than b
+      const result = resolve(
+        { a: 10050, b: 10100 },
+        { paymentRule: 'second_price', tieBreak: 'less_time' },
+        { a: 100000, b: 200000 }
+      )
+      assert.equal(result.winnerId, 'a')
+      assert.deepEqual(charges(result), { a: 10050, b: 0 })
+    })
+
+    it('charges everyone who shares a tie as a winner', () => {
+      const result = resolve({ a: 3000, b: 2950, c: 1000 }, { paymentRule: 'winner_pays', tieBreak: 'all_score' })
+      assert.deepEqual(charges(result), { a: 3000, b: 2950, c: 0 })
+    })
+
+    it('scores nobody and charges nothing when nobody bids', () => {
+      const result = resolve({ a: 0, b: 0 }, { paymentRule: 'all_pay' })
+      assert.equal(result.winnerId, null)
+      assert.deepEqual(result.awards, [])
+      assert.deepEqual(charges(result), { a: 0, b: 0 })
+    })
+  })
+
+  describe('tie-breaks', () => {
+    // a and b are within the default 100ms threshold; c is well behind
+    const bids = { a: 5000, b: 4950, c: 1000 }
+
+    const cases: { tieBreak: TieBreak; winnerId: string | null; awards: { playerId: string; points: number }[] }[] = [
+      { tieBreak: 'no_winner', winnerId: null, awards: [] },
+      { tieBreak: 'all_score', winnerId: null, awards: [{ playerId: 'a', points: 1 }, { playerId: 'b', points: 1 }] },
+      { tieBreak: 'split', winnerId: null, awards: [{ playerId: 'a', points: 0.5 }, { playerId: 'b', points: 0.5 }] },
+    ]
+
+    for (const { tieBreak, winnerId, awards } of cases) {
+      it(`resolves ${tieBreak}`, () => {
+        const result = resolve(bids, { tieBreak })
+        assert.equal(result.wasTie, true)
+        assert.deepEqual(result.tiedPlayerIds, ['a', 'b'])
+        assert.equal(result.winnerId, winnerId)
+        assert.deepEqual(result.awards, awards)
+      })
+    }
+
+    it('gives a less_time tie to the player with less time left', () => {
+      const result = resolve(bids, { tieBreak: 'less_time' }, { a: 300000, b: 200000 })
+      assert.equal(result.winnerId, 'b')
+      assert.equal(result.winningBidMs, 4950)
+      assert.deepEqual(result.awards, [{ playerId: 'b', points: 1 }])
+    })
+
+    it('leaves a less_time tie unscored when the banks are level too', () => {
+      const result = resolve(bids, { tieBreak: 'less_time' })
+      assert.equal(result.wasTie, true)
+      assert.equal(result.winnerId, null)
+      assert.deepEqual(result.awards, [])
+    })
+
+    it('only ties bids within the threshold', () => {
+      const result = resolve({ a: 5000, b: 4899 }, { tieBreak: 'no_winner' })
+      assert.equal(result.wasTie, false)
+      assert.deepEqual(result.tiedPlayerIds, [])
+      assert.equal(result.winnerId, 'a')
+    })
+  })
+})
+
+describe('redactMessage', () => {
+  function playingState(disclosure: DisclosureMode): EngineState {
+    const settings = makeSettings({ disclosure })
+    const state = createEngineState(settings, 0)
+    state.status = 'playing'
+    state.currentRound = 1
+    state.players = [bidder('a', 5000, settings, 100000), bidder('b', 4950, settings, 200000)]
+    return state
+  }
+
+  function roundEnd(state: EngineState): ServerMessage {
+    const results = resolveRound(state.players, 1, 1, state.settings, 0)
+    return { type: 'roundEnd', results, nextRoundIn: 0 }
+  }
+
+  const joined = (state: EngineState): ServerMessage =>
+    ({ type: 'playerJoined', player: toPlayerInfo(state.players[1]) })
+  const bidUpdate: ServerMessage = { type: 'bidUpdate', playerId: 'b', isBidding: false, currentBidMs: 4950 }
+  const holding: ServerMessage = { type: 'playerHoldingUpdate', playerId: 'b', isHolding: true }
+  const eliminated: ServerMessage = { type: 'playerEliminated', playerId: 'b', round: 1 }
+
+  it('passes everything through under full disclosure', () => {
+    const state = playingState('full')
+    for (const message of [joined(state), bidUpdate, eliminated, roundEnd(state)]) {
+      assert.equal(redactMessage(message, state, 'a', 'bidding'), message)
+    }
+  })
+
+  it('passes everything through once the game is over', () => {
+    const state = playingState('sealed')
+    state.status = 'finished'
+    const message = roundEnd(state)
+    assert.equal(redactMessage(message, state, 'a', 'resolution'), message)
+    assert.equal(redactMessage(eliminated, state, 'a', 'resolution'), eliminated)
+  })
+
+  for (const disclosure of ['hide_banks', 'sealed'] as const) {
+    describe(disclosure, () => {
+      it("hides other players' banks but not your own", () => {
+        const state = playingState(disclosure)
+        const message = joined(state)
+        const forA = redactMessage(message, state, 'a', 'pre_round')
+        const forB = redactMessage(message, state, 'b', 'pre_round')
+        assert.equal(forA?.type === 'playerJoined' && forA.player.timeRemainingMs, null)
+        assert.equal(forB?.type === 'playerJoined' && forB.player.timeRemainingMs, 200000)
+      })
+
+      it("seals other players' round results", () => {
+        const state = playingState(disclosure)
+        const message = redactMessage(roundEnd(state), state, 'a', 'resolution')
+        assert.ok(message?.type === 'roundEnd')
+        const { results } = message
+        assert.equal(results.sealed, true)
+        assert.deepEqual(results.tiedPlayerIds, [])
+
+        const [own, other] = results.playerResults
+        assert.equal(own.bidMs, 5000)
+        assert.equal(own.participated, true)
+        assert.deepEqual(
+          { bidMs: other.bidMs, chargedMs: other.chargedMs, participated: other.participated, releasedAtMs: other.releasedAtMs, releaseOrder: other.releaseOrder },
+          { bidMs: 0, chargedMs: 0, participated: false, releasedAtMs: null, releaseOrder: null }
+        )
+      })
+
+      it('tells only the eliminated player they are out', () => {
+        const state = playingState(disclosure)
+        assert.equal(redactMessage(eliminated, state, 'a', 'resolution'), null)
+        assert.equal(redactMessage(eliminated, state, null, 'resolution'), null)
+        assert.equal(redactMessage(eliminated, state, 'b', 'resolution'), eliminated)
+      })
+    })
+  }
+
+  describe('hide_banks', () => {
+    it("blanks other players' running bids but keeps them visible", () => {
+      const state = playingState('hide_banks')
+      const message = redactMessage(bidUpdate, state, 'a', 'bidding')
+      assert.deepEqual(message, { ...bidUpdate, currentBidMs: 0, bankExhausted: false })
+      assert.equal(redactMessage(holding, state, 'a', 'bidding'), holding)
+    })
+  })
+
+  for (const disclosure of ['hide_holding', 'sealed'] as const) {
+    describe(disclosure, () => {
+      it('shows holds only until the grace period starts', () => {
+        const state = playingState(disclosure)
+        assert.equal(redactMessage(holding, state, 'a', 'waiting_for_holds'), holding)
+        assert.equal(redactMessage(holding, state, 'a', 'grace_period'), null)
+        assert.equal(redactMessage(holding, state, 'a', 'bidding'), null)
+        assert.equal(redactMessage(holding, state, 'b', 'bidding'), holding)
+      })
+
+      it("drops other players' bid updates", () => {
+        const state = playingState(disclosure)
+        assert.equal(redactMessage(bidUpdate, state, 'a', 'bidding'), null)
+        assert.equal(redactMessage(bidUpdate, state, 'b', 'bidding'), bidUpdate)
+      })
+    })
+  }
+
+  describe('hide_holding', () => {
+    it('leaves banks and round results alone', () => {
+      const state = playingState('hide_holding')
+      const message = roundEnd(state)
+      assert.equal(redactMessage(message, state, 'a', 'resolution'), message)
+      assert.equal(redactMessage(eliminated, state, 'a', 'resolution'), eliminated)
+      const forA = redactMessage(joined(state), state, 'a', 'pre_round')
+      assert.equal(forA?.type === 'playerJoined' && forA.player.timeRemainingMs, 200000)
+    })
+  })
+})
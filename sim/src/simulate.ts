@@ -0,0 +1,220 @@
+import type {
+  BotStrategy,
+  FinalStanding,
+  GameEndReason,
+  RoundResult,
+  TableSettings,
+} from '../../shared/types'
+import {
+  applyEvent,
+  createEngineState,
+  createEnginePlayer,
+  pendingTimers,
+  seededRandom,
+} from '../../shared/engine'
+import type { EngineEvent, EngineState } from '../../shared/engine'
+import { nextBotAction, planBotRound } from '../../shared/bots'
+import type { BotPlan } from '../../shared/bots'
+
+// Runs whole games between bots on the real engine, with a simulated clock:
+// every step jumps straight to the next engine timer or bot action, so a game
+// that takes an hour at the table runs in milliseconds.
+
+export interface SimulationOptions {
+  settings: TableSettings
+  seats: BotStrategy[]         // One bot per seat; rotated each game so no strategy keeps seat 1
+  games: number
+  seed: number
+}
+
+export interface GameRecord {
+  strategies: Record<string, BotStrategy>  // By player id
+  rounds: RoundResult[]
+  standings: FinalStanding[]
+  reason: GameEndReason
+  decidedInRound: number | null
+}
+
+export interface StrategyStats {
+  seats: number                // Seat-games played
+  wins: number
+  winRate: number
+  avgPoints: number
+  avgTimeLeftMs: number
+}
+
+export interface RoundStats {
+  round: number
+  avgBidMs: number             // Over bids actually made
+  avgWinningBidMs: number      // Over rounds with a single winner
+  avgBidders: number
+  tieRate: number
+}
+
+export interface SimulationReport {
+  games: number
+  seed: number
+  settings: TableSettings
+  seats: BotStrategy[]
+  strategies: Partial<Record<BotStrategy, StrategyStats>>
+  rounds: RoundStats[]
+  tieRate: number              // Rounds whose top bids fell within tieThresholdMs
+  noWinnerRate: number         // Rounds nobody scored, from ties or no bids
+  decidedRate: number          // Games the leader had sewn up before the last round; 0 with earlyFinish off
+  avgDecidedRound: number | null
+  endReasons: Partial<Record<GameEndReason, number>>
+}
+
+// Steps allowed per round before a game is declared stuck
+const MAX_STEPS_PER_ROUND = 1000
+
+export function simulateGame(settings: TableSettings, seats: BotStrategy[], seed: number): GameRecord {
+  const random = seededRandom(seed)
+  const plans: Record<string, BotPlan> = {}
+  const rounds: RoundResult[] = []
+  let standings: FinalStanding[] = []
+  let reason: GameEndReason | null = null
+  let now = 0
+
+  let state: EngineState = createEngineState(settings, now)
+  state.players = seats.map((strategy, i) =>
+    createEnginePlayer(seatId(i), `Seat ${i + 1}`, settings, strategy)
+  )
+
+  const apply = (event: EngineEvent) => {
+    const result = applyEvent(state, event, now)
+    if (result.error) {
+      throw new Error(`Engine rejected ${event.type}: ${result.error.message}`)
+    }
+    state = result.state
+    for (const message of result.messages) {
+      if (message.type === 'roundEnd') rounds.push(message.results)
+      if (message.type === 'gameEnd') {
+        standings = message.standings
+        reason = message.reason
+      }
+    }
+  }
+
+  apply({ type: 'assignHost', playerId: state.players[0].id })
+  apply({ type: 'startGame', playerId: state.players[0].id, seed: Math.floor(random() * 2 ** 32) })
+
+  const maxSteps = (settings.numRounds + 1) * MAX_STEPS_PER_ROUND
+  for (let step = 0; state.status === 'playing'; step++) {
+    if (step >= maxSteps) throw new Error(`Game stuck in round ${state.currentRound}`)
+
+    const actions = state.players.flatMap(player => {
+      if (player.botStrategy === null) return []
+      if (plans[player.id]?.round !== state.currentRound) {
+        plans[player.id] = planBotRound(state, player.id, player.botStrategy, random)
+      }
+      const action = nextBotAction(state, player.id, plans[player.id])
+      return action ? [action] : []
+    })
+
+    const next = Math.min(...pendingTimers(state), ...actions.map(a => a.at))
+    if (!Number.isFinite(next)) throw new Error(`Nothing left to happen in round ${state.currentRound}`)
+    now = Math.max(now, next)
+
+    const due = actions.find(a => a.at <= now)
+    apply(due ? { type: due.type, playerId: due.playerId, latencyMs: 0 } : { type: 'tick' })
+  }
+
+  return {
+    strategies: Object.fromEntries(seats.map((strategy, i) => [seatId(i), strategy])),
+    rounds,
+    standings,
+    reason: reason ?? 'completed',
+    decidedInRound: state.decidedInRound,
+  }
+}
+
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  const { settings, seats, games, seed } = options
+  const random = seededRandom(seed)
+  const records: GameRecord[] = []
+
+  for (let i = 0; i < games; i++) {
+    const offset = i % seats.length
+    const rotated = [...seats.slice(offset), ...seats.slice(0, offset)]
+    records.push(simulateGame(settings, rotated, Math.floor(random() * 2 ** 32)))
+  }
+
+  return {
+    games,
+    seed,
+    settings,
+    seats,
+    strategies: strategyStats(records),
+    rounds: roundStats(records, settings.numRounds),
+    tieRate: rate(records.flatMap(r => r.rounds), r => r.wasTie),
+    noWinnerRate: rate(records.flatMap(r => r.rounds), r => r.awards.length === 0),
+    decidedRate: rate(records, r => r.decidedInRound !== null),
+    avgDecidedRound: average(records.flatMap(r => (r.decidedInRound === null ? [] : [r.decidedInRound]))),
+    endReasons: countBy(records.map(r => r.reason)),
+  }
+}
+
+function strategyStats(records: GameRecord[]): Partial<Record<BotStrategy, StrategyStats>> {
+  const stats: Partial<Record<BotStrategy, StrategyStats>> = {}
+  const totals: Partial<Record<BotStrategy, { points: number; timeLeftMs: number }>> = {}
+
+  for (const record of records) {
+    for (const standing of record.standings) {
+      const strategy = record.strategies[standing.playerId]
+      const entry = stats[strategy] ??= { seats: 0, wins: 0, winRate: 0, avgPoints: 0, avgTimeLeftMs: 0 }
+      const total = totals[strategy] ??= { points: 0, timeLeftMs: 0 }
+      entry.seats++
+      if (standing.rank === 1) entry.wins++
+      total.points += standing.victoryPoints
+      total.timeLeftMs += standing.timeRemainingMs
+    }
+  }
+
+  for (const [strategy, entry] of Object.entries(stats) as [BotStrategy, StrategyStats][]) {
+    const total = totals[strategy]
+    if (!total || entry.seats === 0) continue
+    entry.winRate = entry.wins / entry.seats
+    entry.avgPoints = total.points / entry.seats
+    entry.avgTimeLeftMs = total.timeLeftMs / entry.seats
+  }
+  return stats
+}
+
+function roundStats(records: GameRecord[], numRounds: number): RoundStats[] {
+  const stats: RoundStats[] = []
+  for (let round = 1; round <= numRounds; round++) {
+    const results = records.flatMap(r => r.rounds.filter(result => result.roundNumber === round))
+    if (results.length === 0) continue
+
+    const bids = results.flatMap(r => r.playerResults.filter(p => p.participated).map(p => p.bidMs))
+    stats.push({
+      round,
+      avgBidMs: average(bids) ?? 0,
+      avgWinningBidMs: average(results.filter(r => r.winnerId !== null).map(r => r.winningBidMs)) ?? 0,
+      avgBidders: bids.length / results.length,
+      tieRate: rate(results, r => r.wasTie),
+    })
+  }
+  return stats
+}
+
+function seatId(index: number): string {
+  return `seat-${index + 1}`
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function rate<T>(items: T[], test: (item: T) => boolean): number {
+  return items.length === 0 ? 0 : items.filter(test).length / items.length
+}
+
+function countBy<T extends string>(values: T[]): Partial<Record<T, number>> {
+  const counts: Partial<Record<T, number>> = {}
+  for (const value of values) {
+    counts[value] = (counts[value] ?? 0) + 1
+  }
+  return counts
+}
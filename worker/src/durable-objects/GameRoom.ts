@@ -1,103 +1,464 @@
 import type {
   TableSettings,
-  Player,
-  GameState,
-  PlayerBidStatus,
-  RoundResult,
-  FinalStanding,
   ClientMessage,
   ServerMessage,
+  SequencedServerMessage,
   ErrorCode,
   RoundPhase,
+  ConnectionRole,
+  Spectator,
+  TableLogEntry,
+  TableEvent,
+  TableEventsResponse,
+  BotStrategy,
+  ProtocolFeature,
+  ChatMessage,
+  Emote,
+  RoundResult,
+  FinalStanding,
+  GameEndReason,
 } from '../../../shared/types'
 import {
-  TIE_THRESHOLD_MS,
-  PRE_ROUND_COUNTDOWN_MS,
-  ROUND_RESULTS_DISPLAY_MS,
   RECONNECT_WINDOW_MS,
   MAX_LATENCY_COMPENSATION_MS,
+  CLOCK_SYNC_SAMPLES,
+  MAX_CLOCK_SYNC_RTT_MS,
+  MAX_LOGGED_EVENTS,
+  MAX_SPECTATORS,
+  MAX_BUTTON_EVENTS_PER_SECOND,
+  RATE_LIMIT_STRIKES_BEFORE_DISCONNECT,
+  MAX_FAILED_PASSWORDS_PER_MINUTE,
+  MAX_CHAT_MESSAGES_PER_MINUTE,
+  CHAT_HISTORY_SIZE,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  V1_PROTOCOL_FEATURES,
 } from '../../../shared/constants'
-
-interface PlayerSession {
-  id: string
-  displayName: string
+import {
+  applyEvent,
+  createEngineState,
+  redactMessage,
+  toGameState,
+  toPlayerInfo,
+} from '../../../shared/engine'
+import type { EngineEvent, EnginePlayer, EngineResult, EngineState } from '../../../shared/engine'
+import { validateClientMessage } from '../../../shared/validation'
+import { nextBotAction, planBotRound } from '../../../shared/bots'
+import type { BotAction, BotPlan } from '../../../shared/bots'
+
+interface SpectatorSession extends Spectator {
   reconnectToken: string
-  isHost: boolean
-  isReady: boolean
-  isConnected: boolean
-  timeRemainingMs: number
-  victoryPoints: number
-  lastWinRound: number | null
-  bidStartTime: number | null
-  bidEndTime: number | null
-  currentBidMs: number
-  hasReleasedThisRound: boolean
+  disconnectedAt: number | null  // Their seatless spot is kept for RECONNECT_WINDOW_MS after this
 }
 
 interface TableState {
   tableId: string
-  hostToken: string
+  hostToken: string                       // Proves the creator; rotated when host is handed over
   passwordHash: string | null
-  settings: TableSettings
-  status: 'lobby' | 'playing' | 'finished'
-  hostId: string | null
-  currentRound: number
-  roundPhase: RoundPhase
-  phaseStartTime: number
-  roundHistory: RoundResult[]
+  reconnectTokens: Record<string, string> // playerId -> reconnect token
+  disconnectedAt: Record<string, number>  // playerId -> when their last socket closed, until they're back
+  spectators: SpectatorSession[]          // Watch only; never part of the game engine
+  eventCount: number                      // Entries in the event log so far
+  botPlans: Record<string, BotPlan>       // Bot playerId -> its plan for the current round
+  chat: ChatMessage[]                     // The last CHAT_HISTORY_SIZE messages, oldest first
+  results: SentResults
+  game: EngineState
 }
 
+// The latest results broadcast, so a snapshot can carry them to a client that
+// may have missed them. Cleared when the table goes back to the lobby.
+interface SentResults {
+  roundEnd: RoundResult | null
+  gameEnd: { standings: FinalStanding[]; reason: GameEndReason } | null
+}
+
+// Event log entries live under their own keys so the log can grow and be paged
+// without rewriting tableState
+const EVENT_KEY_PREFIX = 'event:'
+// Durable Object storage accepts at most this many keys per put
+const MAX_KEYS_PER_PUT = 128
+
+function eventKey(seq: number): string {
+  return EVENT_KEY_PREFIX + seq.toString().padStart(10, '0')
+}
+
+// Wrong password budgets are kept per client address in storage rather than
+// on the socket, so opening a fresh socket doesn't buy more guesses
+const PASSWORD_KEY_PREFIX = 'password:'
+
+interface PasswordBudget {
+  tokens: number          // Up to MAX_FAILED_PASSWORDS_PER_MINUTE, refilled lazily from updatedAt
+  updatedAt: number
+}
+
+// Token buckets for one socket, refilled lazily from updatedAt
+interface RateLimitState {
+  tokens: number          // Message budget, up to MAX_BUTTON_EVENTS_PER_SECOND
+  chatTokens: number      // Chat and emote budget, up to MAX_CHAT_MESSAGES_PER_MINUTE
+  strikes: number         // Messages dropped since the message budget was last full
+  updatedAt: number
+}
+
+// One ping/pong round trip measured by the server
+interface ClockSample {
+  rttMs: number
+  offsetMs: number        // Client clock minus server clock
+}
+
+// What a socket agreed to speak when it joined
+interface SocketProtocol {
+  version: number
+  features: ProtocolFeature[]             // Shared by both sides
+}
+
+// Messages only sent to sockets that share the feature
+const FEATURE_MESSAGES: Partial<Record<ServerMessage['type'], ProtocolFeature>> = {
+  spectatorsUpdate: 'spectators',
+  chatMessage: 'chat',
+  chatHistory: 'chat',
+}
+
+// Identity, protocol, rate limits and clock samples stored on each WebSocket (survives hibernation)
+interface WsAttachment {
+  playerId?: string
+  spectatorId?: string
+  clientIp?: string       // CF-Connecting-IP at upgrade, absent in local dev
+  protocol?: SocketProtocol
+  limits?: RateLimitState
+  clock?: ClockSample[]   // Most recent last
+  lastPongAt?: number     // Only an echo of this counts as a sample
+  seq?: number            // Table messages numbered for this socket so far
+}
+
+// Durable Object adapter around the shared game engine. Owns WebSockets,
+// storage and alarms; every game rule lives in shared/engine.ts.
 export class GameRoom implements DurableObject {
   private state: DurableObjectState
-  private players: Map<string, PlayerSession> = new Map()
   private tableState: TableState | null = null
   private initialized = false
+  private pendingEvents: TableEvent[] = []   // Written out by the next saveState
 
   constructor(state: DurableObjectState) {
     this.state = state
   }
 
+  private get game(): EngineState | null {
+    return this.tableState?.game ?? null
+  }
+
+  private findPlayer(playerId: string): EnginePlayer | null {
+    return this.game?.players.find(p => p.id === playerId) ?? null
+  }
+
   // Get player session from WebSocket using attachment (survives hibernation)
-  // Also marks player as connected since they're actively sending messages
-  private getSessionFromWs(ws: WebSocket): PlayerSession | null {
-    const attachment = ws.deserializeAttachment() as { playerId: string } | null
-    if (!attachment?.playerId) return null
-    const session = this.players.get(attachment.playerId)
-    if (session) {
-      session.isConnected = true // Mark as connected since they're active
-    }
-    return session ?? null
+  private getSessionFromWs(ws: WebSocket): EnginePlayer | null {
+    const playerId = this.getWsPlayerId(ws)
+    if (!playerId) return null
+    return this.findPlayer(playerId)
+  }
+
+  private getAttachment(ws: WebSocket): WsAttachment {
+    return (ws.deserializeAttachment() as WsAttachment | null) ?? {}
+  }
+
+  private getWsPlayerId(ws: WebSocket): string | null {
+    return this.getAttachment(ws).playerId ?? null
   }
 
-  // Set player ID on WebSocket attachment
+  private getSpectatorFromWs(ws: WebSocket): SpectatorSession | null {
+    const { spectatorId } = this.getAttachment(ws)
+    if (!spectatorId) return null
+    return this.tableState?.spectators.find(s => s.id === spectatorId) ?? null
+  }
+
+  // Set player ID on WebSocket attachment, keeping everything else but the other role
   private setWsPlayerId(ws: WebSocket, playerId: string): void {
-    ws.serializeAttachment({ playerId })
+    const { clientIp, protocol, limits, clock, lastPongAt, seq } = this.getAttachment(ws)
+    ws.serializeAttachment({ playerId, clientIp, protocol, limits, clock, lastPongAt, seq } satisfies WsAttachment)
+  }
+
+  private setWsSpectatorId(ws: WebSocket, spectatorId: string): void {
+    const { clientIp, protocol, limits, clock, lastPongAt, seq } = this.getAttachment(ws)
+    ws.serializeAttachment({ spectatorId, clientIp, protocol, limits, clock, lastPongAt, seq } satisfies WsAttachment)
+  }
+
+  // Sockets that haven't joined yet are spoken to in the current version
+  private getProtocol(ws: WebSocket): SocketProtocol {
+    return this.getAttachment(ws).protocol ?? { version: PROTOCOL_VERSION, features: [...PROTOCOL_FEATURES] }
+  }
+
+  // Settle the version and features a joining socket will use. Clients from
+  // before versioning send neither and are taken to speak version 1.
+  private negotiateProtocol(ws: WebSocket, version: number, features?: ProtocolFeature[]): boolean {
+    if (version < MIN_PROTOCOL_VERSION) {
+      this.sendError(ws, 'PROTOCOL_MISMATCH', 'This page is out of date. Reload to keep playing.')
+      return false
+    }
+    if (version > PROTOCOL_VERSION) {
+      this.sendError(ws, 'PROTOCOL_MISMATCH', 'The game server is being updated. Reload in a minute to keep playing.')
+      return false
+    }
+
+    const offered = features ?? V1_PROTOCOL_FEATURES
+    const protocol: SocketProtocol = { version, features: PROTOCOL_FEATURES.filter(f => offered.includes(f)) }
+    ws.serializeAttachment({ ...this.getAttachment(ws), protocol } satisfies WsAttachment)
+    return true
+  }
+
+  // Version 1 welcomes carried no protocol fields
+  private getWelcomeProtocol(ws: WebSocket): { protocolVersion?: number; features?: ProtocolFeature[] } {
+    const { version, features } = this.getProtocol(ws)
+    return version === 1 ? {} : { protocolVersion: version, features }
+  }
+
+  // The lowest-RTT recent sample is the least distorted by queueing
+  private getClock(ws: WebSocket): ClockSample | null {
+    const samples = this.getAttachment(ws).clock ?? []
+    return samples.reduce<ClockSample | null>((best, s) => (!best || s.rttMs < best.rttMs ? s : best), null)
+  }
+
+  // Top up both buckets for the time since the socket was last seen
+  private getRateLimits(ws: WebSocket): RateLimitState {
+    const now = Date.now()
+    const limits = this.getAttachment(ws).limits
+    if (!limits) {
+      return {
+        tokens: MAX_BUTTON_EVENTS_PER_SECOND,
+        chatTokens: MAX_CHAT_MESSAGES_PER_MINUTE,
+        strikes: 0,
+        updatedAt: now,
+      }
+    }
+
+    const elapsed = now - limits.updatedAt
+    const tokens = Math.min(
+      MAX_BUTTON_EVENTS_PER_SECOND,
+      limits.tokens + elapsed * MAX_BUTTON_EVENTS_PER_SECOND / 1000
+    )
+    return {
+      tokens,
+      chatTokens: Math.min(
+        MAX_CHAT_MESSAGES_PER_MINUTE,
+        limits.chatTokens + elapsed * MAX_CHAT_MESSAGES_PER_MINUTE / 60000
+      ),
+      // A client that has gone quiet long enough to refill is forgiven
+      strikes: tokens >= MAX_BUTTON_EVENTS_PER_SECOND ? 0 : limits.strikes,
+      updatedAt: now,
+    }
+  }
+
+  private setRateLimits(ws: WebSocket, limits: RateLimitState): void {
+    ws.serializeAttachment({ ...this.getAttachment(ws), limits } satisfies WsAttachment)
+  }
+
+  // Every socket from one address shares a budget; without an address the
+  // whole table does
+  private passwordBudgetKey(ws: WebSocket): string {
+    return PASSWORD_KEY_PREFIX + (this.getAttachment(ws).clientIp ?? 'unknown')
+  }
+
+  private async getPasswordBudget(key: string): Promise<PasswordBudget> {
+    const now = Date.now()
+    const stored = await this.state.storage.get<PasswordBudget>(key)
+    if (!stored) {
+      return { tokens: MAX_FAILED_PASSWORDS_PER_MINUTE, updatedAt: now }
+    }
+
+    return {
+      tokens: Math.min(
+        MAX_FAILED_PASSWORDS_PER_MINUTE,
+        stored.tokens + (now - stored.updatedAt) * MAX_FAILED_PASSWORDS_PER_MINUTE / 60000
+      ),
+      updatedAt: now,
+    }
+  }
+
+  // Spend one message token. The first dropped message of a flood gets
+  // RATE_LIMITED; a client that keeps flooding is disconnected.
+  private takeMessageToken(ws: WebSocket): boolean {
+    const limits = this.getRateLimits(ws)
+    if (limits.tokens >= 1) {
+      limits.tokens -= 1
+      this.setRateLimits(ws, limits)
+      return true
+    }
+
+    limits.strikes += 1
+    this.setRateLimits(ws, limits)
+
+    if (limits.strikes >= RATE_LIMIT_STRIKES_BEFORE_DISCONNECT) {
+      ws.close(1008, 'Rate limit exceeded')
+    } else if (limits.strikes === 1) {
+      this.sendError(ws, 'RATE_LIMITED', 'Too many messages, slow down')
+    }
+    return false
+  }
+
+  // Open sockets belonging to a player (sockets survive hibernation)
+  private getPlayerSockets(playerId: string, exclude?: WebSocket): WebSocket[] {
+    return this.state.getWebSockets().filter(ws => ws !== exclude && this.getWsPlayerId(ws) === playerId)
   }
 
   private async loadState(): Promise<void> {
     if (this.initialized) return
 
     const stored = await this.state.storage.get<TableState>('tableState')
-    if (stored) {
-      this.tableState = stored
+    this.tableState = stored ?? null
+    this.initialized = true
+
+    // Catch up on sockets that came or went while we were hibernating.
+    // Bots have no socket and are always there.
+    for (const p of stored?.game.players ?? []) {
+      const isConnected = p.botStrategy !== null || this.getPlayerSockets(p.id).length > 0
+      if (p.isConnected !== isConnected) {
+        await this.dispatch({ type: 'connection', playerId: p.id, isConnected })
+      }
     }
+  }
+
+  // The table and any new log entries are written together, so eventCount
+  // never runs ahead of the log
+  private async saveState(): Promise<void> {
+    if (!this.tableState) return
 
-    const storedPlayers = await this.state.storage.get<PlayerSession[]>('players')
-    if (storedPlayers) {
-      for (const p of storedPlayers) {
-        p.isConnected = false
-        this.players.set(p.id, p)
+    const entries: Record<string, unknown> = { tableState: this.tableState }
+    for (const event of this.pendingEvents.splice(0)) {
+      if (Object.keys(entries).length === MAX_KEYS_PER_PUT) {
+        await this.state.storage.put(entries)
+        for (const key of Object.keys(entries)) delete entries[key]
       }
+      entries[eventKey(event.seq)] = event
     }
+    await this.state.storage.put(entries)
+  }
 
-    this.initialized = true
+  private logEvent(entry: TableLogEntry): void {
+    if (!this.tableState || this.tableState.eventCount >= MAX_LOGGED_EVENTS) return
+
+    this.tableState.eventCount++
+    this.pendingEvents.push({ ...entry, seq: this.tableState.eventCount, at: Date.now() })
   }
 
-  private async saveState(): Promise<void> {
-    if (this.tableState) {
-      await this.state.storage.put('tableState', this.tableState)
+  // Everything is visible in the log, so until the game is over it is only
+  // for the host, and while a game is running only when the table hides nothing
+  private canReadEvents(hostToken: string | null): boolean {
+    const game = this.game
+    if (!game || game.status === 'finished') return true
+    if (!this.isHostToken(hostToken ?? undefined)) return false
+    return game.status === 'lobby' || game.settings.disclosure === 'full'
+  }
+
+  // The log entry for a client message, without its secrets
+  private actionEntry(ws: WebSocket, action: ClientMessage): TableLogEntry {
+    const { playerId, spectatorId } = this.getAttachment(ws)
+    return { kind: 'action', actorId: playerId ?? spectatorId ?? null, action }
+  }
+
+  // Run an event through the engine and carry out its effects. `logEntry`
+  // records the action behind it, and is only logged if the engine acts on it.
+  private async dispatch(
+    event: EngineEvent,
+    actor?: WebSocket,
+    logEntry?: TableLogEntry
+  ): Promise<EngineResult['error']> {
+    if (!this.tableState) return undefined
+
+    // Messages are redacted according to the phase they were produced in
+    const before = this.tableState.game
+    const phase = before.roundPhase
+    const result = applyEvent(before, event, Date.now())
+    this.tableState.game = result.state
+
+    // What the engine ignores changes nothing, and what it refuses comes with an error
+    const acted = result.messages.length > 0 || JSON.stringify(result.state) !== JSON.stringify(before)
+    if (logEntry && !result.error && acted) {
+      this.logEvent(logEntry)
+    }
+
+    const after = result.state
+    // Seats the engine took away take their tokens and bot plans with them
+    for (const player of before.players) {
+      if (!after.players.some(p => p.id === player.id)) {
+        delete this.tableState.reconnectTokens[player.id]
+        delete this.tableState.disconnectedAt[player.id]
+        delete this.tableState.botPlans[player.id]
+      }
+    }
+
+    if (after.status !== before.status || after.currentRound !== before.currentRound || after.roundPhase !== phase) {
+      this.logEvent({
+        kind: 'phase',
+        status: after.status,
+        round: after.currentRound,
+        phase: after.roundPhase,
+        phaseEndTime: after.phaseEndTime,
+      })
+    }
+
+    if (result.error && actor) {
+      this.sendError(actor, result.error.code, result.error.message)
+    }
+    for (const message of result.messages) {
+      this.broadcast(message, undefined, phase)
+    }
+
+    await this.scheduleTimers([...result.timers, ...this.planBots().map(a => a.at)])
+    await this.saveState()
+    return result.error
+  }
+
+  // Each bot's next press or release, planning its round first if it hasn't
+  // yet. Bots don't play to an empty room, so nothing is due without a person.
+  private planBots(): BotAction[] {
+    if (!this.tableState) return []
+    const game = this.tableState.game
+    if (game.status !== 'playing' || !game.players.some(p => p.botStrategy === null && p.isConnected)) {
+      return []
+    }
+
+    const actions: BotAction[] = []
+    for (const player of game.players) {
+      if (player.botStrategy === null) continue
+
+      let plan = this.tableState.botPlans[player.id]
+      if (plan?.round !== game.currentRound) {
+        plan = planBotRound(game, player.id, player.botStrategy, Math.random)
+        this.tableState.botPlans[player.id] = plan
+      }
+
+      const action = nextBotAction(game, player.id, plan)
+      if (action) actions.push(action)
+    }
+    return actions
+  }
+
+  // Carry out every bot press and release that has come due. Each can move the
+  // round on, so look again after each one; the bound guards against a bot
+  // whose action the engine keeps ignoring.
+  private async runBots(): Promise<void> {
+    const maxSteps = (this.game?.players.length ?? 0) * 2
+    for (let step = 0; step < maxSteps; step++) {
+      const due = this.planBots().find(a => a.at <= Date.now())
+      if (!due) return
+
+      await this.dispatch(
+        { type: due.type, playerId: due.playerId, latencyMs: 0 },
+        undefined,
+        { kind: 'bid', playerId: due.playerId, action: due.type, clientTimestamp: Date.now(), latencyMs: 0 }
+      )
+    }
+  }
+
+  // A DO has a single alarm, so keep whichever wake-up is due first
+  private async scheduleTimers(timers: number[]): Promise<void> {
+    if (timers.length === 0) return
+
+    const next = Math.min(...timers)
+    const current = await this.state.storage.getAlarm()
+    if (current === null || next < current) {
+      await this.state.storage.setAlarm(next)
     }
-    await this.state.storage.put('players', Array.from(this.players.values()))
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -118,13 +479,14 @@ export class GameRoom implements DurableObject {
         tableId: data.tableId,
         hostToken: data.hostToken,
         passwordHash: data.passwordHash,
-        settings: data.settings,
-        status: 'lobby',
-        hostId: null,
-        currentRound: 0,
-        roundPhase: 'pre_round',
-        phaseStartTime: Date.now(),
-        roundHistory: [],
+        reconnectTokens: {},
+        disconnectedAt: {},
+        spectators: [],
+        eventCount: 0,
+        botPlans: {},
+        chat: [],
+        results: { roundEnd: null, gameEnd: null },
+        game: createEngineState(data.settings, Date.now()),
       }
 
       await this.saveState()
@@ -137,16 +499,42 @@ export class GameRoom implements DurableObject {
         return new Response('Not found', { status: 404 })
       }
 
+      const { game } = this.tableState
       return Response.json({
         tableId: this.tableState.tableId,
-        name: this.tableState.settings.tableName,
-        playerCount: this.players.size,
-        maxPlayers: this.tableState.settings.maxPlayers,
-        status: this.tableState.status,
-        hasPassword: this.tableState.settings.hasPassword,
+        name: game.settings.tableName,
+        playerCount: game.players.length,
+        maxPlayers: game.settings.maxPlayers,
+        status: game.status,
+        hasPassword: game.settings.hasPassword,
       })
     }
 
+    // Internal event log endpoint; index.ts has already checked the query
+    if (url.pathname === '/events' && request.method === 'GET') {
+      if (!this.tableState) {
+        return new Response('Not found', { status: 404 })
+      }
+      if (!this.canReadEvents(request.headers.get('X-Host-Token'))) {
+        return new Response('Forbidden', { status: 403 })
+      }
+
+      const after = Number(url.searchParams.get('after'))
+      const limit = Number(url.searchParams.get('limit'))
+      const stored = await this.state.storage.list<TableEvent>({
+        prefix: EVENT_KEY_PREFIX,
+        start: eventKey(after + 1),
+        limit,
+      })
+      const events = [...stored.values()]
+      const last = events[events.length - 1]
+      const response: TableEventsResponse = {
+        events,
+        nextCursor: last && last.seq < this.tableState.eventCount ? last.seq : null,
+      }
+      return Response.json(response)
+    }
+
     // WebSocket upgrade
     const upgradeHeader = request.headers.get('Upgrade')
     if (upgradeHeader?.toLowerCase() === 'websocket') {
@@ -155,6 +543,8 @@ export class GameRoom implements DurableObject {
 
       // Accept without tags initially - we'll tag after join
       this.state.acceptWebSocket(server)
+      const clientIp = request.headers.get('CF-Connecting-IP') ?? undefined
+      server.serializeAttachment({ clientIp } satisfies WsAttachment)
 
       return new Response(null, {
         status: 101,
@@ -168,14 +558,29 @@ export class GameRoom implements DurableObject {
   async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
     await this.loadState()
 
+    if (!this.takeMessageToken(ws)) return
+
     if (!this.tableState) {
       this.sendError(ws, 'TABLE_NOT_FOUND', 'Table does not exist')
       return
     }
 
+    let raw: unknown
     try {
-      const msg = JSON.parse(message as string) as ClientMessage
-      await this.handleMessage(ws, msg)
+      raw = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message))
+    } catch {
+      this.sendError(ws, 'INVALID_ACTION', 'Message is not valid JSON')
+      return
+    }
+
+    const validated = validateClientMessage(raw)
+    if (!validated.ok) {
+      this.sendError(ws, 'INVALID_ACTION', validated.error.message, validated.error.field)
+      return
+    }
+
+    try {
+      await this.handleMessage(ws, validated.value)
     } catch (err) {
       console.error('Error handling message:', err)
       this.sendError(ws, 'INVALID_ACTION', 'Invalid message')
@@ -185,21 +590,47 @@ export class GameRoom implements DurableObject {
   async webSocketClose(ws: WebSocket): Promise<void> {
     await this.loadState()
 
+    const spectator = this.getSpectatorFromWs(ws)
+    if (spectator) {
+      spectator.isConnected = false
+      spectator.disconnectedAt = Date.now()
+      this.broadcastSpectators()
+      await this.scheduleTimers(this.reconnectDeadlines())
+      await this.saveState()
+      return
+    }
+
     const session = this.getSessionFromWs(ws)
     if (session) {
-      session.isConnected = false
+      await this.disconnectPlayer(session, ws)
+    }
+  }
 
-      // Broadcast disconnection
-      this.broadcast({
-        type: 'playerDisconnected',
-        playerId: session.id,
-        reconnectDeadline: Date.now() + RECONNECT_WINDOW_MS,
-      })
+  // A player's last socket closing and a player leaving a game in progress
+  // both end up here, so either way they get the reconnect window
+  private async disconnectPlayer(session: EnginePlayer, ws: WebSocket, logEntry?: TableLogEntry): Promise<void> {
+    if (!this.tableState) return
+    // Already gone: the socket a leave closes comes back through here
+    if (!session.isConnected) return
+    // Still connected through another socket (e.g. a second tab)
+    if (this.getPlayerSockets(session.id, ws).length > 0) return
 
-      // Schedule cleanup after reconnect window
-      await this.state.storage.setAlarm(Date.now() + RECONNECT_WINDOW_MS)
-      await this.saveState()
-    }
+    // Broadcast disconnection
+    const disconnectedAt = Date.now()
+    this.broadcast({
+      type: 'playerDisconnected',
+      playerId: session.id,
+      reconnectDeadline: disconnectedAt + RECONNECT_WINDOW_MS,
+    }, ws)
+
+    // Releases any hold and re-checks whether the round can move on. Host
+    // stays put until the window is up: moving between pages closes the
+    // host's socket before the next one joins.
+    this.tableState.disconnectedAt[session.id] = disconnectedAt
+    await this.dispatch({ type: 'connection', playerId: session.id, isConnected: false }, undefined, logEntry)
+
+    // Schedule cleanup after reconnect window
+    await this.scheduleTimers([disconnectedAt + RECONNECT_WINDOW_MS])
   }
 
   async webSocketError(ws: WebSocket): Promise<void> {
@@ -211,61 +642,81 @@ export class GameRoom implements DurableObject {
 
     if (!this.tableState) return
 
-    // Handle round phase transitions
-    if (this.tableState.status === 'playing') {
-      const now = Date.now()
-
-      if (this.tableState.roundPhase === 'pre_round') {
-        // Pre-round countdown finished, go to waiting for holds
-        this.tableState.roundPhase = 'waiting_for_holds'
-        this.tableState.phaseStartTime = now
-
-        this.broadcastGameState()
-      } else if (this.tableState.roundPhase === 'grace_period') {
-        // Grace period ended, start bidding phase
-        this.tableState.roundPhase = 'bidding'
-        this.tableState.phaseStartTime = now
-
-        this.broadcast({ type: 'graceExpired' })
-
-        // Don't schedule an alarm - round ends when all release
-      } else if (this.tableState.roundPhase === 'resolution') {
-        // Resolution phase finished, start next round or end game
-        if (this.tableState.currentRound >= this.tableState.settings.numRounds) {
-          await this.endGame()
-        } else {
-          await this.startNextRound()
-        }
-      }
-
-      await this.saveState()
+    // Let the engine advance any phase whose deadline has passed
+    await this.dispatch({ type: 'tick' })
+    await this.runBots()
+
+    const game = this.tableState.game
+
+    // Anyone who dropped keeps their place until their reconnect window is up.
+    // Alarms also come for phases and bots, so check the time.
+    const now = Date.now()
+    const spectatorCount = this.tableState.spectators.length
+    this.tableState.spectators = this.tableState.spectators.filter(
+      s => s.disconnectedAt === null || now < s.disconnectedAt + RECONNECT_WINDOW_MS
+    )
+    if (this.tableState.spectators.length !== spectatorCount) {
+      this.broadcastSpectators()
     }
 
     // Clean up disconnected players after reconnect window
-    for (const [playerId, player] of this.players) {
-      if (!player.isConnected && this.tableState.status === 'lobby') {
-        this.players.delete(playerId)
-        this.broadcast({ type: 'playerLeft', playerId })
+    if (game.status === 'lobby') {
+      for (const player of game.players) {
+        if (!player.isConnected && !this.isWithinReconnectWindow(player.id, now)) {
+          await this.dispatch({ type: 'leave', playerId: player.id })
+        }
       }
     }
 
-    // Assign new host if needed
-    if (!this.tableState.hostId || !this.players.has(this.tableState.hostId)) {
-      const firstPlayer = Array.from(this.players.values()).find(p => p.isConnected)
-      if (firstPlayer) {
-        this.tableState.hostId = firstPlayer.id
-        firstPlayer.isHost = true
-        this.broadcastLobbyState()
-      }
+    await this.ensureHost()
+    await this.scheduleTimers(this.reconnectDeadlines())
+    await this.saveState()
+  }
+
+  // Fall back to the longest-seated connected player when the host has left,
+  // or dropped and not come back within the reconnect window, so someone can
+  // still pause, finish or rematch. The creator can still reclaim host later
+  // with the host token.
+  private async ensureHost(): Promise<void> {
+    const game = this.game
+    if (!game) return
+    const host = game.players.find(p => p.id === game.hostId)
+    if (host && (host.isConnected || this.isWithinReconnectWindow(host.id, Date.now()))) return
+
+    const fallback = game.players.find(p => p.isConnected && p.botStrategy === null)
+    if (fallback) {
+      await this.dispatch({ type: 'assignHost', playerId: fallback.id })
     }
+  }
 
-    await this.saveState()
+  private isWithinReconnectWindow(playerId: string, now: number): boolean {
+    const disconnectedAt = this.tableState?.disconnectedAt[playerId]
+    return disconnectedAt !== undefined && now < disconnectedAt + RECONNECT_WINDOW_MS
+  }
+
+  // When each reconnect window still open closes. A player dropped from a
+  // game in progress keeps their seat, so their window only matters until then.
+  private reconnectDeadlines(): number[] {
+    if (!this.tableState) return []
+    const now = Date.now()
+    const players = Object.values(this.tableState.disconnectedAt)
+      .map(t => t + RECONNECT_WINDOW_MS)
+      .filter(t => t > now)
+    const spectators = this.tableState.spectators.flatMap(s =>
+      s.disconnectedAt === null ? [] : [s.disconnectedAt + RECONNECT_WINDOW_MS]
+    )
+    return [...players, ...spectators]
+  }
+
+  private isHostToken(hostToken?: string): boolean {
+    return !!hostToken && hostToken === this.tableState?.hostToken
   }
 
   private async handleMessage(ws: WebSocket, msg: ClientMessage): Promise<void> {
     switch (msg.type) {
       case 'join':
-        await this.handleJoin(ws, msg.playerName, msg.password, msg.reconnectToken)
+        if (!this.negotiateProtocol(ws, msg.protocolVersion ?? 1, msg.features)) break
+        await this.handleJoin(ws, msg.playerName, msg.password, msg.reconnectToken, msg.hostToken, msg.role ?? 'player')
         break
       case 'ready':
         await this.handleReady(ws, msg.isReady)
@@ -274,16 +725,46 @@ export class GameRoom implements DurableObject {
         await this.handleStartGame(ws)
         break
       case 'bidStart':
-        await this.handleBidStart(ws, msg.clientTimestamp)
+        await this.handleBid(ws, 'bidStart', msg.clientTimestamp)
         break
       case 'bidEnd':
-        await this.handleBidEnd(ws, msg.clientTimestamp)
+        await this.handleBid(ws, 'bidEnd', msg.clientTimestamp)
         break
       case 'kick':
         await this.handleKick(ws, msg.playerId)
         break
+      case 'transferHost':
+        await this.handleTransferHost(ws, msg.playerId)
+        break
+      case 'addBot':
+        await this.handleAddBot(ws, msg.strategy)
+        break
+      case 'removeBot':
+        await this.handleRemoveBot(ws, msg.playerId)
+        break
+      case 'rematch':
+        await this.handleRematch(ws, msg.keepSeriesScore)
+        break
+      case 'pause':
+        await this.handlePause(ws)
+        break
+      case 'finishEarly':
+        await this.handleFinishEarly(ws)
+        break
+      case 'resume':
+        await this.handleResume(ws)
+        break
       case 'ping':
-        this.send(ws, { type: 'pong', serverTime: Date.now() })
+        this.handlePing(ws, msg.clientTime, msg.echo)
+        break
+      case 'resync':
+        this.handleResync(ws)
+        break
+      case 'chat':
+        await this.handleChat(ws, msg.text, null)
+        break
+      case 'emote':
+        await this.handleChat(ws, null, msg.emote)
         break
       case 'leave':
         await this.handleLeave(ws)
@@ -295,9 +776,13 @@ export class GameRoom implements DurableObject {
     ws: WebSocket,
     playerName: string,
     password?: string,
-    reconnectToken?: string
+    reconnectToken?: string,
+    hostToken?: string,
+    role: ConnectionRole = 'player'
   ): Promise<void> {
     if (!this.tableState) return
+    // Logged once the join succeeds, by whoever the socket was before it
+    const joinEntry = this.actionEntry(ws, { type: 'join', playerName, role })
 
     // Check password
     if (this.tableState.passwordHash) {
@@ -305,8 +790,17 @@ export class GameRoom implements DurableObject {
         this.sendError(ws, 'INVALID_PASSWORD', 'Password required')
         return
       }
+      // Wrong guesses have a much smaller budget than other messages
+      const budgetKey = this.passwordBudgetKey(ws)
+      const budget = await this.getPasswordBudget(budgetKey)
+      if (budget.tokens < 1) {
+        this.sendError(ws, 'RATE_LIMITED', 'Too many wrong passwords, try again in a minute')
+        return
+      }
       const hash = await this.hashPassword(password)
       if (hash !== this.tableState.passwordHash) {
+        budget.tokens -= 1
+        await this.state.storage.put(budgetKey, budget)
         this.sendError(ws, 'INVALID_PASSWORD', 'Invalid password')
         return
       }
@@ -314,566 +808,548 @@ export class GameRoom implements DurableObject {
 
     // Check for reconnection
     if (reconnectToken) {
-      for (const [playerId, player] of this.players) {
-        if (player.reconnectToken === reconnectToken) {
-          player.isConnected = true
+      for (const [playerId, token] of Object.entries(this.tableState.reconnectTokens)) {
+        const player = this.findPlayer(playerId)
+        if (player && token === reconnectToken) {
+          this.logEvent(joinEntry)
           this.setWsPlayerId(ws, player.id)
 
           this.send(ws, {
             type: 'welcome',
             playerId: player.id,
-            reconnectToken: player.reconnectToken,
+            reconnectToken: token,
             serverTime: Date.now(),
+            role: 'player',
+            ...this.getWelcomeProtocol(ws),
           })
 
           this.broadcast({ type: 'playerReconnected', playerId })
+          delete this.tableState.disconnectedAt[playerId]
+          await this.dispatch({ type: 'connection', playerId, isConnected: true })
+          if (this.isHostToken(hostToken)) {
+            await this.dispatch({ type: 'assignHost', playerId })
+          } else {
+            await this.ensureHost()
+          }
           this.sendCurrentState(ws)
-          await this.saveState()
+          this.sendChatHistory(ws)
           return
         }
       }
-    }
 
-    // Check if game already started
-    if (this.tableState.status !== 'lobby') {
-      this.sendError(ws, 'GAME_ALREADY_STARTED', 'Game has already started')
-      return
+      const spectator = this.tableState.spectators.find(s => s.reconnectToken === reconnectToken)
+      if (spectator) {
+        this.logEvent(joinEntry)
+        spectator.isConnected = true
+        spectator.disconnectedAt = null
+        this.setWsSpectatorId(ws, spectator.id)
+        this.sendSpectatorWelcome(ws, spectator)
+        this.broadcastSpectators()
+        await this.saveState()
+        return
+      }
     }
 
-    // Check if table is full
-    if (this.players.size >= this.tableState.settings.maxPlayers) {
-      this.sendError(ws, 'TABLE_FULL', 'Table is full')
+    if (this.isNameTaken(playerName)) {
+      this.sendError(ws, 'NAME_TAKEN', 'Name is already taken')
       return
     }
 
-    // Check if name is taken
-    for (const player of this.players.values()) {
-      if (player.displayName.toLowerCase() === playerName.toLowerCase()) {
-        this.sendError(ws, 'NAME_TAKEN', 'Name is already taken')
-        return
-      }
+    if (role === 'spectator') {
+      await this.addSpectator(ws, playerName, joinEntry)
+      return
     }
 
-    // Create new player
+    // The engine seats new players only in the lobby and while there's room
     const playerId = crypto.randomUUID()
-    const newReconnectToken = this.generateToken()
-    const isHost = this.players.size === 0
-
-    const session: PlayerSession = {
-      id: playerId,
-      displayName: playerName,
-      reconnectToken: newReconnectToken,
-      isHost,
-      isReady: false,
-      isConnected: true,
-      timeRemainingMs: this.tableState.settings.startingTimeMs,
-      victoryPoints: 0,
-      lastWinRound: null,
-      bidStartTime: null,
-      bidEndTime: null,
-      currentBidMs: 0,
-      hasReleasedThisRound: false,
-    }
+    const error = await this.dispatch({ type: 'join', playerId, displayName: playerName }, ws, joinEntry)
+    if (error) return
 
-    this.players.set(playerId, session)
+    const newReconnectToken = this.generateToken()
+    this.tableState.reconnectTokens[playerId] = newReconnectToken
     this.setWsPlayerId(ws, playerId)
 
-    if (isHost) {
-      this.tableState.hostId = playerId
-    }
-
     this.send(ws, {
       type: 'welcome',
       playerId,
       reconnectToken: newReconnectToken,
       serverTime: Date.now(),
+      role: 'player',
+      ...this.getWelcomeProtocol(ws),
     })
 
+    // The creator always takes host; otherwise a connected player holds it until they arrive
+    if (this.isHostToken(hostToken)) {
+      await this.dispatch({ type: 'assignHost', playerId })
+    } else {
+      await this.ensureHost()
+    }
+
     this.broadcastLobbyState()
-    this.broadcast({
-      type: 'playerJoined',
-      player: this.toPlayerInfo(session),
-    }, ws)
+    this.sendChatHistory(ws)
 
     await this.saveState()
   }
 
-  private async handleReady(ws: WebSocket, isReady: boolean): Promise<void> {
-    const session = this.getSessionFromWs(ws)
-    if (!session || this.tableState?.status !== 'lobby') return
+  private isNameTaken(name: string): boolean {
+    if (!this.tableState) return false
 
-    session.isReady = isReady
-    this.broadcast({
-      type: 'playerReady',
-      playerId: session.id,
-      isReady,
-    })
-
-    await this.saveState()
+    const lower = name.toLowerCase()
+    return this.tableState.game.players.some(p => p.displayName.toLowerCase() === lower) ||
+      this.tableState.spectators.some(s => s.displayName.toLowerCase() === lower)
   }
 
-  private async handleStartGame(ws: WebSocket): Promise<void> {
-    const session = this.getSessionFromWs(ws)
-    if (!session || !this.tableState) return
-
-    if (!session.isHost) {
-      this.sendError(ws, 'NOT_HOST', 'Only the host can start the game')
-      return
-    }
+  // Spectators can join at any time and don't take a seat
+  private async addSpectator(ws: WebSocket, displayName: string, joinEntry: TableLogEntry): Promise<void> {
+    if (!this.tableState) return
 
-    if (this.players.size < 2) {
-      this.sendError(ws, 'NOT_ENOUGH_PLAYERS', 'Need at least 2 players')
+    if (this.tableState.spectators.length >= MAX_SPECTATORS) {
+      this.sendError(ws, 'TABLE_FULL', 'Too many spectators')
       return
     }
 
-    const allReady = Array.from(this.players.values()).every(p => p.isReady)
-    if (!allReady) {
-      this.sendError(ws, 'PLAYERS_NOT_READY', 'All players must be ready')
-      return
+    this.logEvent(joinEntry)
+    const spectator: SpectatorSession = {
+      id: crypto.randomUUID(),
+      displayName,
+      isConnected: true,
+      reconnectToken: this.generateToken(),
+      disconnectedAt: null,
     }
 
-    this.tableState.status = 'playing'
-    this.tableState.currentRound = 1
-
-    this.broadcast({ type: 'gameStarting', countdown: 3 })
+    this.tableState.spectators.push(spectator)
+    this.setWsSpectatorId(ws, spectator.id)
 
-    // Start first round after brief countdown
-    await this.state.storage.setAlarm(Date.now() + PRE_ROUND_COUNTDOWN_MS)
-    this.tableState.roundPhase = 'pre_round'
-    this.tableState.phaseStartTime = Date.now()
+    this.sendSpectatorWelcome(ws, spectator)
+    this.broadcastSpectators()
 
-    // Initialize round state for all players
-    for (const player of this.players.values()) {
-      player.bidStartTime = null
-      player.bidEndTime = null
-      player.currentBidMs = 0
-      player.hasReleasedThisRound = false
-    }
+    await this.saveState()
+  }
 
-    this.broadcast({
-      type: 'roundStart',
-      round: 1,
-      totalRounds: this.tableState.settings.numRounds,
+  private sendSpectatorWelcome(ws: WebSocket, spectator: SpectatorSession): void {
+    this.send(ws, {
+      type: 'welcome',
+      playerId: spectator.id,
+      reconnectToken: spectator.reconnectToken,
+      serverTime: Date.now(),
+      role: 'spectator',
+      ...this.getWelcomeProtocol(ws),
     })
-
-    await this.saveState()
+    this.sendCurrentState(ws)
+    this.sendChatHistory(ws)
   }
 
-  private async handleBidStart(ws: WebSocket, clientTimestamp: number): Promise<void> {
+  private async handleReady(ws: WebSocket, isReady: boolean): Promise<void> {
     const session = this.getSessionFromWs(ws)
-    if (!session || !this.tableState) return
-
-    if (this.tableState.status !== 'playing') return
-    if (session.bidStartTime !== null) return // Already holding
-    if (session.hasReleasedThisRound) return // Already released this round
-
-    const phase = this.tableState.roundPhase
-
-    // Can only start holding during waiting_for_holds or grace_period
-    if (phase !== 'waiting_for_holds' && phase !== 'grace_period') return
-
-    const serverTime = Date.now()
-    const latency = Math.min(Math.abs(serverTime - clientTimestamp), MAX_LATENCY_COMPENSATION_MS)
-    session.bidStartTime = serverTime - latency
+    if (!session) return
 
-    this.broadcast({
-      type: 'playerHoldingUpdate',
-      playerId: session.id,
-      isHolding: true,
-    })
+    await this.dispatch({ type: 'ready', playerId: session.id, isReady }, ws, this.actionEntry(ws, { type: 'ready', isReady }))
+  }
 
-    // Check if all players are now holding (only during waiting phase)
-    if (phase === 'waiting_for_holds') {
-      await this.checkAllPlayersHolding()
-    }
+  private async handleStartGame(ws: WebSocket): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session) return
 
-    await this.saveState()
+    await this.dispatch(
+      { type: 'startGame', playerId: session.id, seed: this.generateSeed() },
+      ws,
+      this.actionEntry(ws, { type: 'startGame' })
+    )
   }
 
-  private async handleBidEnd(ws: WebSocket, clientTimestamp: number): Promise<void> {
+  private async handleBid(
+    ws: WebSocket,
+    type: 'bidStart' | 'bidEnd',
+    clientTimestamp: number
+  ): Promise<void> {
     const session = this.getSessionFromWs(ws)
-    if (!session || !this.tableState) return
+    if (!session) return
 
-    if (session.bidStartTime === null) return // Not holding
+    const latencyMs = this.getCompensation(ws, clientTimestamp)
+    await this.dispatch(
+      { type, playerId: session.id, latencyMs },
+      ws,
+      { kind: 'bid', playerId: session.id, action: type, clientTimestamp, latencyMs }
+    )
+  }
 
-    const serverTime = Date.now()
-    const latency = Math.min(Math.abs(serverTime - clientTimestamp), MAX_LATENCY_COMPENSATION_MS)
-    session.bidEndTime = serverTime - latency
+  // Credit the measured one-way latency, but never more than the client's own
+  // timestamp claims. Unsynced connections get nothing.
+  private getCompensation(ws: WebSocket, clientTimestamp: number): number {
+    const clock = this.getClock(ws)
+    if (!clock) return 0
 
-    const phase = this.tableState.roundPhase
+    const oneWayMs = Math.min(clock.rttMs / 2, MAX_LATENCY_COMPENSATION_MS)
+    const claimedMs = Date.now() - (clientTimestamp - clock.offsetMs)
+    return Math.round(Math.max(0, Math.min(claimedMs, oneWayMs)))
+  }
 
-    if (phase === 'waiting_for_holds') {
-      // Just stopped holding before grace period started
-      session.bidStartTime = null
-      session.bidEndTime = null
+  // Players and spectators can both talk. Text chat can be closed while a
+  // round is live so nobody spells out what they're about to do; emotes stay open.
+  private async handleChat(ws: WebSocket, text: string | null, emote: Emote | null): Promise<void> {
+    if (!this.tableState) return
+    const game = this.tableState.game
 
-      this.broadcast({
-        type: 'playerHoldingUpdate',
-        playerId: session.id,
-        isHolding: false,
-      })
-    } else if (phase === 'grace_period') {
-      // Released during grace period - opting out (no bid)
-      session.currentBidMs = 0
-      session.hasReleasedThisRound = true
-      session.bidStartTime = null
-      session.bidEndTime = null
-
-      this.broadcast({
-        type: 'bidUpdate',
-        playerId: session.id,
-        isBidding: false,
-        currentBidMs: 0,
-      })
-    } else if (phase === 'bidding') {
-      // Released during bidding - lock in their bid
-      // Bid time = time held after grace period ended
-      const graceEndTime = this.tableState.phaseStartTime
-      const effectiveStart = Math.max(session.bidStartTime, graceEndTime)
-      session.currentBidMs = Math.max(0, session.bidEndTime - effectiveStart)
-      session.hasReleasedThisRound = true
-
-      this.broadcast({
-        type: 'bidUpdate',
-        playerId: session.id,
-        isBidding: false,
-        currentBidMs: session.currentBidMs,
-      })
+    const sender = this.getSessionFromWs(ws) ?? this.getSpectatorFromWs(ws)
+    if (!sender) return
 
-      session.bidStartTime = null
-      session.bidEndTime = null
+    const inRound = game.status === 'playing' &&
+      (game.roundPhase === 'grace_period' || game.roundPhase === 'bidding')
+    if (text !== null && inRound && !game.settings.chatDuringBidding) {
+      this.sendError(ws, 'INVALID_ACTION', 'Chat is closed while bidding')
+      return
+    }
 
-      // Check if round should end (all players released)
-      this.checkRoundEnd()
+    const limits = this.getRateLimits(ws)
+    if (limits.chatTokens < 1) {
+      this.sendError(ws, 'RATE_LIMITED', 'Too many chat messages, slow down')
+      return
+    }
+    limits.chatTokens -= 1
+    this.setRateLimits(ws, limits)
+
+    const { chat } = this.tableState
+    const message: ChatMessage = {
+      id: (chat[chat.length - 1]?.id ?? 0) + 1,
+      senderId: sender.id,
+      senderName: sender.displayName,
+      text,
+      emote,
+      sentAt: Date.now(),
     }
+    chat.push(message)
+    chat.splice(0, chat.length - CHAT_HISTORY_SIZE)
 
+    this.broadcastChat(message)
     await this.saveState()
   }
 
-  private async checkAllPlayersHolding(): Promise<void> {
-    if (!this.tableState || this.tableState.roundPhase !== 'waiting_for_holds') return
-
-    const connectedPlayers = Array.from(this.players.values()).filter(p => p.isConnected)
-    const allHolding = connectedPlayers.every(p => p.bidStartTime !== null)
-
-    if (allHolding && connectedPlayers.length >= 2) {
-      // Start grace period!
-      const now = Date.now()
-      this.tableState.roundPhase = 'grace_period'
-      this.tableState.phaseStartTime = now
-
-      this.broadcast({
-        type: 'allPlayersHolding',
-        gracePeriodEndsAt: now + this.tableState.settings.gracePeriodMs,
-      })
+  // A client that lost track starts again from a snapshot
+  private handleResync(ws: WebSocket): void {
+    const { playerId, spectatorId } = this.getAttachment(ws)
+    if (!playerId && !spectatorId) return
+    this.sendCurrentState(ws)
+  }
 
-      // Schedule grace period end
-      await this.state.storage.setAlarm(now + this.tableState.settings.gracePeriodMs)
-      await this.saveState()
+  // NTP-style sync. A ping sent straight back on receipt of a pong echoes
+  // that pong's serverTime, which gives us the round trip on our own clock.
+  private handlePing(ws: WebSocket, clientTime?: number, echo?: number): void {
+    const now = Date.now()
+    const attachment = this.getAttachment(ws)
+    let clock = attachment.clock
+
+    if (clientTime !== undefined && echo !== undefined && echo === attachment.lastPongAt) {
+      const rttMs = now - echo
+      if (rttMs <= MAX_CLOCK_SYNC_RTT_MS) {
+        // The ping left the client half a round trip ago
+        const sample: ClockSample = { rttMs, offsetMs: clientTime - (now - rttMs / 2) }
+        clock = [...(clock ?? []), sample].slice(-CLOCK_SYNC_SAMPLES)
+      }
     }
-  }
 
-  private checkRoundEnd(): void {
-    if (!this.tableState || this.tableState.roundPhase !== 'bidding') return
+    ws.serializeAttachment({ ...attachment, clock, lastPongAt: now } satisfies WsAttachment)
+    this.send(ws, { type: 'pong', serverTime: now, clientTime })
+  }
 
-    const connectedPlayers = Array.from(this.players.values()).filter(p => p.isConnected)
+  private async handleKick(ws: WebSocket, playerId: string): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session) return
 
-    // Round ends when NO connected player is still holding
-    // bidStartTime !== null means they're still holding the button
-    const someoneStillHolding = connectedPlayers.some(p => p.bidStartTime !== null)
+    const error = await this.dispatch(
+      { type: 'kick', playerId: session.id, targetId: playerId },
+      ws,
+      this.actionEntry(ws, { type: 'kick', playerId })
+    )
+    if (error) return
 
-    if (!someoneStillHolding) {
-      this.endRound()
+    for (const otherWs of this.getPlayerSockets(playerId)) {
+      this.send(otherWs, { type: 'playerKicked', playerId })
+      otherWs.close()
     }
   }
 
-  private async endRound(): Promise<void> {
-    if (!this.tableState) return
-
-    this.tableState.roundPhase = 'resolution'
-    this.tableState.phaseStartTime = Date.now()
-
-    // Calculate results
-    const bids: { playerId: string; displayName: string; bidMs: number; participated: boolean }[] = []
-    let maxBid = 0
-    let winnerId: string | null = null
-    let winnerName: string | null = null
-    let tieCount = 0
-
-    for (const player of this.players.values()) {
-      const bidMs = player.currentBidMs
-      bids.push({
-        playerId: player.id,
-        displayName: player.displayName,
-        bidMs,
-        participated: bidMs > 0,
-      })
-
-      if (bidMs > 0) {
-        // Deduct bid from time bank
-        player.timeRemainingMs = Math.max(0, player.timeRemainingMs - bidMs)
-
-        if (bidMs > maxBid + TIE_THRESHOLD_MS) {
-          maxBid = bidMs
-          winnerId = player.id
-          winnerName = player.displayName
-          tieCount = 1
-        } else if (Math.abs(bidMs - maxBid) <= TIE_THRESHOLD_MS && bidMs >= maxBid) {
-          tieCount++
-          if (bidMs > maxBid) {
-            maxBid = bidMs
-            winnerId = player.id
-            winnerName = player.displayName
-          }
-        }
-      }
-    }
+  private async handleAddBot(ws: WebSocket, strategy: BotStrategy): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session) return
 
-    // Handle tie - no winner
-    const wasTie = tieCount > 1
-    if (wasTie) {
-      winnerId = null
-      winnerName = null
-    }
+    let n = 1
+    while (this.isNameTaken(`Bot ${n}`)) n++
 
-    // Award victory point to winner
-    if (winnerId) {
-      const winner = this.players.get(winnerId)
-      if (winner) {
-        winner.victoryPoints++
-        winner.lastWinRound = this.tableState.currentRound
-      }
-    }
+    await this.dispatch({
+      type: 'addBot',
+      playerId: session.id,
+      botId: crypto.randomUUID(),
+      displayName: `Bot ${n}`,
+      strategy,
+    }, ws, this.actionEntry(ws, { type: 'addBot', strategy }))
+  }
 
-    const roundResult: RoundResult = {
-      roundNumber: this.tableState.currentRound,
-      winnerId,
-      winnerName,
-      winningBidMs: maxBid,
-      wasTie,
-      playerResults: bids,
-    }
+  private async handleRemoveBot(ws: WebSocket, playerId: string): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session) return
 
-    this.tableState.roundHistory.push(roundResult)
+    await this.dispatch(
+      { type: 'removeBot', playerId: session.id, targetId: playerId },
+      ws,
+      this.actionEntry(ws, { type: 'removeBot', playerId })
+    )
+  }
 
-    this.broadcast({
-      type: 'roundEnd',
-      results: roundResult,
-      nextRoundIn: ROUND_RESULTS_DISPLAY_MS,
-    })
+  private async handleTransferHost(ws: WebSocket, targetId: string): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session || !this.tableState) return
 
-    // Schedule next round or game end
-    await this.state.storage.setAlarm(Date.now() + ROUND_RESULTS_DISPLAY_MS)
+    const previousHostId = this.tableState.game.hostId
+    const error = await this.dispatch(
+      { type: 'transferHost', playerId: session.id, targetId },
+      ws,
+      this.actionEntry(ws, { type: 'transferHost', playerId: targetId })
+    )
+    if (error || this.tableState.game.hostId === previousHostId) return
 
-    await this.saveState()
+    await this.handOverHostToken()
   }
 
-  private async startNextRound(): Promise<void> {
-    if (!this.tableState) return
+  // A handed-over table shouldn't be taken back with the creation token, and
+  // the new host needs one of their own for the event log
+  private async handOverHostToken(): Promise<void> {
+    if (!this.tableState?.game.hostId) return
 
-    this.tableState.currentRound++
-    this.tableState.roundPhase = 'pre_round'
-    this.tableState.phaseStartTime = Date.now()
-
-    // Reset player round state
-    for (const player of this.players.values()) {
-      player.bidStartTime = null
-      player.bidEndTime = null
-      player.currentBidMs = 0
-      player.hasReleasedThisRound = false
+    const hostToken = this.generateToken()
+    this.tableState.hostToken = hostToken
+    for (const socket of this.getPlayerSockets(this.tableState.game.hostId)) {
+      this.send(socket, { type: 'hostToken', hostToken })
     }
-
-    this.broadcast({
-      type: 'roundStart',
-      round: this.tableState.currentRound,
-      totalRounds: this.tableState.settings.numRounds,
-    })
-
-    // Schedule transition to waiting_for_holds
-    await this.state.storage.setAlarm(Date.now() + PRE_ROUND_COUNTDOWN_MS)
-
     await this.saveState()
   }
 
-  private async endGame(): Promise<void> {
-    if (!this.tableState) return
+  private async handleRematch(ws: WebSocket, keepSeriesScore: boolean): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session || !this.tableState) return
 
-    this.tableState.status = 'finished'
-
-    // Calculate final standings
-    const standings: FinalStanding[] = Array.from(this.players.values())
-      .map(p => ({
-        rank: 0,
-        playerId: p.id,
-        displayName: p.displayName,
-        victoryPoints: p.victoryPoints,
-        timeRemainingMs: p.timeRemainingMs,
-        lastWinRound: p.lastWinRound,
-      }))
-      .sort((a, b) => {
-        // Sort by: points (desc) -> time remaining (desc) -> last win round (desc)
-        if (b.victoryPoints !== a.victoryPoints) {
-          return b.victoryPoints - a.victoryPoints
-        }
-        if (b.timeRemainingMs !== a.timeRemainingMs) {
-          return b.timeRemainingMs - a.timeRemainingMs
-        }
-        return (b.lastWinRound ?? 0) - (a.lastWinRound ?? 0)
-      })
+    // The engine's refusal has already gone back to the sender
+    const error = await this.dispatch(
+      { type: 'rematch', playerId: session.id, keepSeriesScore },
+      ws,
+      this.actionEntry(ws, { type: 'rematch', keepSeriesScore })
+    )
+    if (error) return
 
-    // Assign ranks
-    standings.forEach((s, i) => {
-      s.rank = i + 1
-    })
+    const game = this.tableState.game
 
-    this.broadcast({ type: 'gameEnd', standings })
+    this.tableState.botPlans = {}
+    this.broadcastLobbyState()
 
+    // Players who left during the game lose their seat like any lobby
+    // drop-out, with a fresh window to come back
+    const now = Date.now()
+    for (const player of game.players) {
+      if (!player.isConnected) this.tableState.disconnectedAt[player.id] = now
+    }
+    await this.scheduleTimers(this.reconnectDeadlines())
     await this.saveState()
   }
 
-  private async handleKick(ws: WebSocket, playerId: string): Promise<void> {
+  private async handlePause(ws: WebSocket): Promise<void> {
     const session = this.getSessionFromWs(ws)
     if (!session || !this.tableState) return
 
-    if (!session.isHost) {
-      this.sendError(ws, 'NOT_HOST', 'Only the host can kick players')
-      return
-    }
+    await this.dispatch({ type: 'pause', playerId: session.id }, ws, this.actionEntry(ws, { type: 'pause' }))
 
-    if (playerId === session.id) {
-      this.sendError(ws, 'INVALID_ACTION', 'Cannot kick yourself')
-      return
+    // The phase deadline is frozen; resume schedules a fresh alarm for what's
+    // left. Anyone who dropped still needs clearing out after the reconnect window.
+    const { game } = this.tableState
+    if (game.pausedAt !== null) {
+      await this.state.storage.deleteAlarm()
+      await this.scheduleTimers(this.reconnectDeadlines())
     }
+  }
 
-    const playerToKick = this.players.get(playerId)
-    if (!playerToKick) return
+  private async handleResume(ws: WebSocket): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session) return
 
-    // Find and close their WebSocket
-    for (const otherWs of this.state.getWebSockets()) {
-      const otherSession = this.getSessionFromWs(otherWs)
-      if (otherSession?.id === playerId) {
-        this.send(otherWs, { type: 'playerKicked', playerId })
-        otherWs.close()
-        break
-      }
-    }
+    await this.dispatch({ type: 'resume', playerId: session.id }, ws, this.actionEntry(ws, { type: 'resume' }))
+  }
 
-    this.players.delete(playerId)
-    this.broadcast({ type: 'playerLeft', playerId })
+  private async handleFinishEarly(ws: WebSocket): Promise<void> {
+    const session = this.getSessionFromWs(ws)
+    if (!session) return
 
-    await this.saveState()
+    await this.dispatch({ type: 'finishEarly', playerId: session.id }, ws, this.actionEntry(ws, { type: 'finishEarly' }))
   }
 
   private async handleLeave(ws: WebSocket): Promise<void> {
+    const spectator = this.getSpectatorFromWs(ws)
+    if (spectator && this.tableState) {
+      this.logEvent(this.actionEntry(ws, { type: 'leave' }))
+      this.tableState.spectators = this.tableState.spectators.filter(s => s.id !== spectator.id)
+      this.broadcastSpectators()
+      ws.close()
+      await this.saveState()
+      return
+    }
+
     const session = this.getSessionFromWs(ws)
     if (!session) return
 
-    session.isConnected = false
-
-    if (this.tableState?.status === 'lobby') {
-      this.players.delete(session.id)
-      this.broadcast({ type: 'playerLeft', playerId: session.id })
+    // Leaving the lobby gives up the seat; leaving a game is a disconnect
+    const logEntry = this.actionEntry(ws, { type: 'leave' })
+    if (this.game?.status === 'lobby') {
+      await this.dispatch({ type: 'leave', playerId: session.id }, ws, logEntry)
+      await this.ensureHost()
+    } else {
+      await this.disconnectPlayer(session, ws, logEntry)
     }
 
     ws.close()
     await this.saveState()
   }
 
+  // The latest results ride along, since the state alone can't rebuild them
+  // for a client that missed them
   private sendCurrentState(ws: WebSocket): void {
     if (!this.tableState) return
+    const { game, results: { roundEnd, gameEnd } } = this.tableState
 
-    if (this.tableState.status === 'lobby') {
+    if (game.status === 'lobby') {
       this.sendLobbyState(ws)
     } else {
-      this.send(ws, {
+      this.sendTo(ws, {
         type: 'gameState',
-        state: this.getGameState(),
+        state: toGameState(game),
+        ...(roundEnd ? { lastRoundResult: roundEnd } : {}),
+        ...(gameEnd ? { finalResults: gameEnd } : {}),
       })
     }
   }
 
-  private getGameState(): GameState {
-    if (!this.tableState) {
-      throw new Error('No table state')
-    }
-
-    return {
-      status: this.tableState.status,
-      currentRound: this.tableState.currentRound,
-      totalRounds: this.tableState.settings.numRounds,
-      roundPhase: this.tableState.roundPhase,
-      phaseStartTime: this.tableState.phaseStartTime,
-      phaseEndTime: null,
-      players: Array.from(this.players.values()).map(p => this.toPlayerInfo(p)),
-      playerBids: Array.from(this.players.values()).map(p => ({
-        playerId: p.id,
-        isBidding: p.bidStartTime !== null,
-        currentBidMs: p.currentBidMs,
-        hasReleasedThisRound: p.hasReleasedThisRound,
-      })),
-    }
-  }
-
   private sendLobbyState(ws: WebSocket): void {
-    if (!this.tableState) return
+    if (!this.game) return
 
-    this.send(ws, {
+    this.sendTo(ws, {
       type: 'lobbyState',
-      settings: this.tableState.settings,
-      players: Array.from(this.players.values()).map(p => this.toPlayerInfo(p)),
-      hostId: this.tableState.hostId ?? '',
+      settings: this.game.settings,
+      players: this.game.players.map(toPlayerInfo),
+      hostId: this.game.hostId ?? '',
+      spectators: this.getSpectatorList(),
     })
   }
 
   private broadcastLobbyState(): void {
-    if (!this.tableState) return
+    if (!this.game) return
 
     this.broadcast({
       type: 'lobbyState',
-      settings: this.tableState.settings,
-      players: Array.from(this.players.values()).map(p => this.toPlayerInfo(p)),
-      hostId: this.tableState.hostId ?? '',
+      settings: this.game.settings,
+      players: this.game.players.map(toPlayerInfo),
+      hostId: this.game.hostId ?? '',
+      spectators: this.getSpectatorList(),
     })
   }
 
-  private broadcastGameState(): void {
-    this.broadcast({
-      type: 'gameState',
-      state: this.getGameState(),
-    })
+  private getSpectatorList(): Spectator[] {
+    return (this.tableState?.spectators ?? []).map(s => ({
+      id: s.id,
+      displayName: s.displayName,
+      isConnected: s.isConnected,
+    }))
   }
 
-  private toPlayerInfo(session: PlayerSession): Player {
-    return {
-      id: session.id,
-      displayName: session.displayName,
-      isHost: session.isHost,
-      isReady: session.isReady,
-      isConnected: session.isConnected,
-      timeRemainingMs: session.timeRemainingMs,
-      victoryPoints: session.victoryPoints,
-      lastWinRound: session.lastWinRound,
+  private sendChatHistory(ws: WebSocket): void {
+    this.send(ws, { type: 'chatHistory', messages: this.tableState?.chat ?? [] })
+  }
+
+  // Chat goes to everyone who has joined, straight away: it isn't game state,
+  // so it is neither redacted, delayed for spectators nor logged
+  private broadcastChat(message: ChatMessage): void {
+    for (const ws of this.state.getWebSockets()) {
+      const { playerId, spectatorId } = this.getAttachment(ws)
+      if (playerId || spectatorId) {
+        this.send(ws, { type: 'chatMessage', message })
+      }
     }
   }
 
-  private send(ws: WebSocket, message: ServerMessage): void {
+  private broadcastSpectators(): void {
+    this.broadcast({ type: 'spectatorsUpdate', spectators: this.getSpectatorList() })
+  }
+
+  // Every message leaves through here. Table messages carry the seq sendTo
+  // gave them.
+  private send(ws: WebSocket, message: ServerMessage, seq?: number): void {
+    if (!this.understands(ws, message)) return
+
+    const sequenced: SequencedServerMessage = seq !== undefined ? { ...message, seq } : message
+
     try {
-      ws.send(JSON.stringify(message))
+      ws.send(JSON.stringify(sequenced))
     } catch (err) {
       console.error('Failed to send message:', err)
     }
   }
 
-  private sendError(ws: WebSocket, code: ErrorCode, message: string): void {
-    this.send(ws, { type: 'error', code, message })
+  private sendError(ws: WebSocket, code: ErrorCode, message: string, field?: string): void {
+    this.send(ws, { type: 'error', code, message, field })
+  }
+
+  private understands(ws: WebSocket, message: ServerMessage): boolean {
+    const feature = FEATURE_MESSAGES[message.type]
+    return !feature || this.getProtocol(ws).features.includes(feature)
+  }
+
+  // The next number in this socket's stream of table messages, if it speaks 'resync'
+  private nextSeq(ws: WebSocket): number | undefined {
+    if (!this.getProtocol(ws).features.includes('resync')) return undefined
+
+    const attachment = this.getAttachment(ws)
+    const seq = (attachment.seq ?? 0) + 1
+    ws.serializeAttachment({ ...attachment, seq } satisfies WsAttachment)
+    return seq
+  }
+
+  // Send table state to one socket, showing only what its player may see.
+  // Spectators get the outsider's view, optionally delayed to stop ghosting.
+  // Only what the socket will actually receive is numbered, so any gap the
+  // client sees is a message it lost.
+  private sendTo(ws: WebSocket, message: ServerMessage, phase?: RoundPhase): void {
+    if (!this.game) return
+
+    const redacted = redactMessage(message, this.game, this.getWsPlayerId(ws), phase ?? this.game.roundPhase)
+    if (!redacted || !this.understands(ws, redacted)) return
+
+    const seq = this.nextSeq(ws)
+
+    const delayMs = this.getSpectatorFromWs(ws) ? this.game.settings.spectatorDelayMs : 0
+    if (delayMs > 0) {
+      // Best effort: a pending timer keeps the object awake, and is lost if it
+      // is evicted anyway. The message is already numbered, so the spectator
+      // sees the gap on the next one and resyncs.
+      setTimeout(() => this.send(ws, redacted, seq), delayMs)
+    } else {
+      this.send(ws, redacted, seq)
+    }
   }
 
-  private broadcast(message: ServerMessage, exclude?: WebSocket): void {
+  private broadcast(message: ServerMessage, exclude?: WebSocket, phase?: RoundPhase): void {
+    if (!this.tableState) return
+    this.logEvent({ kind: 'message', message })
+
+    const { results } = this.tableState
+    if (message.type === 'roundEnd') {
+      results.roundEnd = message.results
+    } else if (message.type === 'gameEnd') {
+      results.gameEnd = { standings: message.standings, reason: message.reason }
+    } else if (message.type === 'rematchStarting') {
+      results.roundEnd = null
+      results.gameEnd = null
+    }
+
     // Use getWebSockets() to survive hibernation
     const webSockets = this.state.getWebSockets()
     for (const ws of webSockets) {
       if (ws !== exclude) {
-        this.send(ws, message)
+        this.sendTo(ws, message, phase)
       }
     }
   }
@@ -884,6 +1360,10 @@ export class GameRoom implements DurableObject {
     return Array.from(array, b => b.toString(16).padStart(2, '0')).join('')
   }
 
+  private generateSeed(): number {
+    return crypto.getRandomValues(new Uint32Array(1))[0]
+  }
+
   private async hashPassword(password: string): Promise<string> {
     const encoder = new TextEncoder()
     const data = encoder.encode(password)
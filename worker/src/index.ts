@@ -1,19 +1,12 @@
 import { GameRoom } from './durable-objects/GameRoom'
-import type { CreateTableRequest, CreateTableResponse, TableInfo } from '../../shared/types'
+import type { CreateTableResponse, TableInfo, TableEventsResponse } from '../../shared/types'
 import {
   TABLE_ID_LENGTH,
   TABLE_ID_CHARS,
-  MIN_TABLE_NAME_LENGTH,
-  MAX_TABLE_NAME_LENGTH,
-  MIN_STARTING_TIME_SECONDS,
-  MAX_STARTING_TIME_SECONDS,
-  MIN_ROUNDS,
-  MAX_ROUNDS,
-  MIN_PLAYERS,
-  MAX_PLAYERS,
-  MIN_GRACE_PERIOD_SECONDS,
-  MAX_GRACE_PERIOD_SECONDS,
+  EVENTS_PAGE_SIZE,
+  MAX_EVENTS_PAGE_SIZE,
 } from '../../shared/constants'
+import { validateCreateTableRequest, tableSettingsFromRequest } from '../../shared/validation'
 
 export { GameRoom }
 
@@ -46,7 +39,7 @@ function corsHeaders(): HeadersInit {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
   }
 }
 
@@ -74,24 +67,14 @@ export default {
     // REST API routes
     if (url.pathname === '/api/tables' && request.method === 'POST') {
       try {
-        const body = await request.json() as CreateTableRequest
-
-        // Validate input
-        if (!body.name || body.name.length < MIN_TABLE_NAME_LENGTH || body.name.length > MAX_TABLE_NAME_LENGTH) {
-          return Response.json({ error: 'Invalid table name' }, { status: 400, headers: corsHeaders() })
-        }
-        if (body.startingTimeSeconds < MIN_STARTING_TIME_SECONDS || body.startingTimeSeconds > MAX_STARTING_TIME_SECONDS) {
-          return Response.json({ error: 'Invalid starting time' }, { status: 400, headers: corsHeaders() })
-        }
-        if (body.numRounds < MIN_ROUNDS || body.numRounds > MAX_ROUNDS) {
-          return Response.json({ error: 'Invalid number of rounds' }, { status: 400, headers: corsHeaders() })
-        }
-        if (body.maxPlayers < MIN_PLAYERS || body.maxPlayers > MAX_PLAYERS) {
-          return Response.json({ error: 'Invalid max players' }, { status: 400, headers: corsHeaders() })
-        }
-        if (body.gracePeriodSeconds < MIN_GRACE_PERIOD_SECONDS || body.gracePeriodSeconds > MAX_GRACE_PERIOD_SECONDS) {
-          return Response.json({ error: 'Invalid grace period' }, { status: 400, headers: corsHeaders() })
+        const validated = validateCreateTableRequest(await request.json())
+        if (!validated.ok) {
+          return Response.json(
+            { error: validated.error.message, field: validated.error.field },
+            { status: 400, headers: corsHeaders() }
+          )
         }
+        const body = validated.value
 
         const tableId = generateTableId()
         const hostToken = generateToken()
@@ -107,14 +90,7 @@ export default {
             tableId,
             hostToken,
             passwordHash,
-            settings: {
-              tableName: body.name,
-              startingTimeMs: body.startingTimeSeconds * 1000,
-              numRounds: body.numRounds,
-              maxPlayers: body.maxPlayers,
-              gracePeriodMs: body.gracePeriodSeconds * 1000,
-              hasPassword: !!body.password,
-            },
+            settings: tableSettingsFromRequest(body),
           }),
         }))
 
@@ -135,6 +111,39 @@ export default {
       }
     }
 
+    // Get a table's event log: ?after=<seq>&limit=<n>, host token as a bearer token
+    const eventsMatch = url.pathname.match(/^\/api\/tables\/([^/]+)\/events$/)
+    if (eventsMatch && request.method === 'GET') {
+      const after = Number(url.searchParams.get('after') ?? 0)
+      const limit = Number(url.searchParams.get('limit') ?? EVENTS_PAGE_SIZE)
+      if (!Number.isInteger(after) || after < 0) {
+        return Response.json({ error: 'after must be a non-negative whole number', field: 'after' }, { status: 400, headers: corsHeaders() })
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EVENTS_PAGE_SIZE) {
+        return Response.json({ error: `limit must be from 1 to ${MAX_EVENTS_PAGE_SIZE}`, field: 'limit' }, { status: 400, headers: corsHeaders() })
+      }
+
+      const id = env.GAME_ROOM.idFromName(eventsMatch[1])
+      const room = env.GAME_ROOM.get(id)
+
+      const hostToken = request.headers.get('Authorization')?.replace(/^Bearer /, '') ?? ''
+      const eventsResponse = await room.fetch(new Request(`http://internal/events?after=${after}&limit=${limit}`, {
+        headers: { 'X-Host-Token': hostToken },
+      }))
+      if (eventsResponse.status === 404) {
+        return Response.json({ error: 'Table not found' }, { status: 404, headers: corsHeaders() })
+      }
+      if (eventsResponse.status === 403) {
+        return Response.json(
+          { error: 'The event log is available to the host, or to everyone once the game is over' },
+          { status: 403, headers: corsHeaders() }
+        )
+      }
+
+      const events = await eventsResponse.json() as TableEventsResponse
+      return Response.json(events, { headers: corsHeaders() })
+    }
+
     // Get table info
     if (url.pathname.startsWith('/api/tables/') && request.method === 'GET') {
       const tableId = url.pathname.split('/')[3]